@@ -0,0 +1,12 @@
+import { GPIO } from "hallonbullar";
+
+// The LED and the chip are released when the block ends, even on errors
+{
+  using chip = new GPIO("/dev/gpiochip0");
+  using led = chip.output(17);
+
+  for (let i = 0; i < 10; i++) {
+    led.toggle();
+    await Bun.sleep(250);
+  }
+}
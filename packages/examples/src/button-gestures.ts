@@ -0,0 +1,37 @@
+import { GPIO, Button, enableSafeShutdown } from "hallonbullar";
+
+// Turn the LED off and release the lines on Ctrl+C, kill or a crash
+enableSafeShutdown();
+
+const chip = new GPIO("/dev/gpiochip0");
+
+const led = chip.output(17, { safeValue: false });
+const button = new Button(chip, 18, { longPressMs: 800, repeatMs: 200 });
+
+// A click toggles the LED, a double-click turns it on, holding flashes it
+button.onClick(({ count }) => {
+  console.log(count === 2 ? "Double-click" : `Clicked ${count} time(s)`);
+  if (count === 1) {
+    led.toggle();
+  } else if (count === 2) {
+    led.on();
+  }
+});
+
+button.onLongPress(({ durationNs }) => {
+  console.log(`Long press after ${Number(durationNs) / 1e6} ms`);
+});
+
+button.onRepeat(({ count }) => {
+  console.log(`Still held (${count})`);
+  led.toggle();
+});
+
+button.onRelease(({ durationNs, long }) => {
+  console.log(
+    `Released after ${Number(durationNs) / 1e6} ms${long ? " (long)" : ""}`
+  );
+  if (long) {
+    led.off();
+  }
+});
@@ -0,0 +1,34 @@
+import { GPIO, GPIOSimulator } from "hallonbullar";
+
+// The button example on a simulated chip, so it runs without a Raspberry Pi
+const sim = new GPIOSimulator();
+const simChip = sim.addChip({ label: "pinctrl-rp1" });
+
+const chip = new GPIO(simChip.path, { backend: sim });
+
+const led = chip.output(17);
+const button = chip.input(18, {
+  bias: "pull-up",
+  edge: "falling",
+  debounceMs: 20,
+});
+console.log(`Debounce: ${button.debounce}`);
+
+button.onEdge((event) => {
+  console.log(`Button pressed: ${event.type}`);
+  led.write(!led.state);
+});
+
+// Press the button three times, with contact bounce on every press
+for (let i = 0; i < 3; i++) {
+  simChip.bounce(18, false);
+  await Bun.sleep(50);
+  simChip.drive(18, true);
+  await Bun.sleep(50);
+}
+
+for (const change of simChip.history(17)) {
+  console.log(`LED ${change.value ? "on" : "off"} at ${change.timestampNs}ns`);
+}
+
+chip.close();
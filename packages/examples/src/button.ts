@@ -1,18 +1,15 @@
-import { GPIO } from "hallonbullar";
+import { GPIO, enableSafeShutdown } from "hallonbullar";
+
+// Turn the LED off and release the lines on Ctrl+C, kill or a crash
+enableSafeShutdown();
 
 const chip = new GPIO("/dev/gpiochip0");
 
-const led = chip.output(17);
-const button = chip.input(18, { edge: "falling" });
+const led = chip.output(17, { safeValue: false });
+const button = chip.input(18, { edge: "falling", debounceMs: 20 });
+console.log(`Debounce: ${button.debounce}`);
 
 button.onEdge((event) => {
   console.log(`Button pressed: ${event.type}`);
   led.write(!led.state);
 });
-
-// Cleanup on exit
-process.on("SIGINT", () => {
-  led.off();
-  chip.close();
-  process.exit(0);
-});
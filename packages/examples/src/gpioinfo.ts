@@ -0,0 +1,32 @@
+import { GPIO } from "hallonbullar";
+
+// Print every line of every chip, like the `gpioinfo` tool
+for (const summary of GPIO.listChips()) {
+  console.log(
+    `${summary.name} [${summary.label}] (${summary.numLines} lines) ${summary.path}`
+  );
+
+  const chip = new GPIO(summary.path);
+  for (const line of chip.lines()) {
+    const flags = [
+      line.used ? `consumer=${line.consumer ?? "kernel"}` : "unused",
+      line.direction,
+      line.direction === "output"
+        ? line.drive
+        : line.edge !== "none"
+        ? `edges=${line.edge}`
+        : null,
+      line.bias !== "unknown" && line.bias !== "disabled" ? line.bias : null,
+      line.activeLow ? "active-low" : null,
+      line.debounced ? `debounce-period=${line.debouncePeriodUs}us` : null,
+      line.edge !== "none" ? `clock=${line.eventClock}` : null,
+    ].filter(Boolean);
+
+    console.log(
+      `\tline ${String(line.offset).padStart(3)}: ${JSON.stringify(
+        line.name ?? "unnamed"
+      )}\t${flags.join(" ")}`
+    );
+  }
+  chip.close();
+}
@@ -1,19 +1,15 @@
-import { GPIO } from "hallonbullar";
+import { GPIO, enableSafeShutdown } from "hallonbullar";
+
+// Turn both lights off and release the lines on Ctrl+C, kill or a crash
+enableSafeShutdown();
 
 const chip = new GPIO("/dev/gpiochip0");
 
-const redLight = chip.output(17);
-const greenLight = chip.output(27);
+const redLight = chip.output(17, { safeValue: false });
+const greenLight = chip.output(27, { safeValue: false });
 redLight.off();
 greenLight.off();
 
-process.on("SIGINT", () => {
-  redLight.off();
-  greenLight.off();
-  chip.close();
-  process.exit(0);
-});
-
 Bun.serve({
   port: 3000,
   routes: {
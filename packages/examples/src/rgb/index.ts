@@ -1,17 +1,14 @@
-import { GPIO, SoftwarePWM } from "hallonbullar";
+import { GPIO, SoftwarePWM, enableSafeShutdown } from "hallonbullar";
 
-const chip = new GPIO("/dev/gpiochip0");
+// Stop the PWMs and release the lines on Ctrl+C, kill or a crash
+enableSafeShutdown();
 
-const red = new SoftwarePWM(chip.output(18));
-const green = new SoftwarePWM(chip.output(12));
-const blue = new SoftwarePWM(chip.output(17));
+const chip = new GPIO("/dev/gpiochip0");
 
-process.on("SIGINT", () => {
-  red.close();
-  green.close();
-  blue.close();
-  chip.close();
-});
+// Common anode LEDs are off when the line is high
+const red = new SoftwarePWM(chip.output(18, { safeValue: true }));
+const green = new SoftwarePWM(chip.output(12, { safeValue: true }));
+const blue = new SoftwarePWM(chip.output(17, { safeValue: true }));
 
 Bun.serve({
   port: 3000,
@@ -7,8 +7,7 @@ const led = chip.output(17);
 const pwm = new SoftwarePWM(led);
 
 process.on("SIGINT", () => {
-  pwm.setDutyCycle(0);
-  pwm.close();
+  // Also stops the software PWM driving the LED
   chip.close();
   process.exit(0);
 });
@@ -0,0 +1,134 @@
+/**
+ * Backend interface behind the GPIO controller
+ *
+ * A backend opens chips and requests lines. The libgpiod backend talks to the
+ * kernel through FFI, and the simulator keeps everything in memory so
+ * application logic can be tested without hardware.
+ *
+ * Backends report failures by throwing a HallonbullarError carrying the errno
+ * of the failed operation. The GPIO classes turn these into errors that
+ * describe what the user asked for.
+ */
+
+import type {
+  BiasSetting,
+  ChipInfo,
+  DriveSetting,
+  EdgeEvent,
+  EdgeSetting,
+  EventClock,
+  LineDirection,
+  LineInfo,
+  LineInfoEvent,
+} from "./gpio";
+import type { ErrorCallback } from "./errors";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Settings of a single requested line */
+export interface LineSettings {
+  /** Line direction */
+  direction: LineDirection;
+  /** Output value set when the line is requested or reconfigured */
+  outputValue?: boolean;
+  /** Treat the signal as active-low */
+  activeLow?: boolean;
+  /** How an output is driven (default: "push-pull") */
+  drive?: DriveSetting;
+  /** Bias resistor setting (default: left as is) */
+  bias?: BiasSetting;
+  /** Edge detection for inputs (default: "none") */
+  edge?: EdgeSetting;
+  /** Hardware debounce period in microseconds (default: 0) */
+  debouncePeriodUs?: number;
+  /** Clock for edge event timestamps (default: left as is) */
+  clock?: EventClock;
+}
+
+/** Settings for one line of a request */
+export interface LineRequestEntry {
+  offset: number;
+  settings: LineSettings;
+}
+
+/** A request for one or more lines */
+export interface LineRequestConfig {
+  /** Name shown as the consumer of the lines */
+  consumer: string;
+  /** Lines in request order */
+  lines: LineRequestEntry[];
+  /** Number of edge events the kernel buffers for this request */
+  eventBufferSize?: number;
+}
+
+/** Receives the edge events read from a request, oldest first */
+export type EdgeEventsCallback = (events: EdgeEvent[]) => void;
+
+/** Receives line info events of watched lines */
+export type InfoEventCallback = (event: LineInfoEvent) => void;
+
+/** A set of lines owned by this process */
+export interface LineRequestHandle {
+  /** Read the logical value of a line */
+  getValue(offset: number): boolean;
+  /** Read the logical values of several lines at once */
+  getValues(offsets: number[]): boolean[];
+  /** Set the logical value of an output line */
+  setValue(offset: number, value: boolean): void;
+  /** Set the logical values of several output lines at once */
+  setValues(offsets: number[], values: boolean[]): void;
+  /** Apply new settings to a line without releasing it */
+  reconfigureLine(offset: number, settings: LineSettings): void;
+  /**
+   * Deliver edge events as they arrive, or stop delivering them when
+   * `callback` is null
+   * @param readBufferSize Largest number of events read at once
+   * @param onError Receives the failure when delivery stops on its own
+   */
+  onEdgeEvents(
+    callback: EdgeEventsCallback | null,
+    readBufferSize?: number,
+    onError?: ErrorCallback
+  ): void;
+  /** Deliver edge events that are already queued right away */
+  flushEdgeEvents(): void;
+  /** Release all lines of the request */
+  release(): void;
+}
+
+/** An open GPIO chip */
+export interface ChipHandle {
+  /** Get information about the chip */
+  getInfo(): ChipInfo;
+  /** Get information about a line */
+  getLineInfo(offset: number): LineInfo;
+  /** Find a line by name, or return null */
+  findLine(name: string): number | null;
+  /** Start reporting info events for a line */
+  watchLineInfo(offset: number): void;
+  /** Stop reporting info events for a line */
+  unwatchLineInfo(offset: number): void;
+  /**
+   * Deliver info events of watched lines as they arrive, or stop delivering
+   * them when `callback` is null
+   * @param onError Receives the failure when delivery stops on its own
+   */
+  onInfoEvents(
+    callback: InfoEventCallback | null,
+    onError?: ErrorCallback
+  ): void;
+  /** Request lines for exclusive use */
+  requestLines(config: LineRequestConfig): LineRequestHandle;
+  /** Close the chip */
+  close(): void;
+}
+
+/** Source of GPIO chips */
+export interface GPIOBackend {
+  /** Paths of the GPIO chips this backend can open, in chip order */
+  listChips(): string[];
+  /** Open a chip by path */
+  openChip(path: string): ChipHandle;
+}
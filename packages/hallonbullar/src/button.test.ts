@@ -0,0 +1,272 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Button, type ButtonEvent, type ButtonOptions } from "./button";
+import { GPIO } from "./gpio";
+import { GPIOSimulator, type SimulatedChip } from "./gpio-simulator";
+import { monotonicNs, VirtualScheduler } from "./scheduler";
+
+const START_NS = 1_000_000_000n;
+const MS = 1_000_000n;
+const PIN = 4;
+
+let scheduler: VirtualScheduler;
+let simChip: SimulatedChip;
+let gpio: GPIO;
+
+beforeEach(() => {
+  scheduler = new VirtualScheduler(START_NS);
+  const sim = new GPIOSimulator({ scheduler });
+  simChip = sim.addChip();
+  gpio = new GPIO(simChip.path, { backend: sim, scheduler });
+});
+
+afterEach(() => {
+  gpio.close();
+});
+
+/** Create a button and collect its events, with times relative to the start */
+function createButton(options: ButtonOptions = {}) {
+  const button = new Button(gpio, PIN, { debounceMs: 0, ...options });
+  const events: string[] = [];
+  const record = (event: ButtonEvent) => {
+    const at = (event.timestampNs - START_NS) / MS;
+    const detail =
+      "count" in event
+        ? ` x${event.count}`
+        : "long" in event && event.long
+        ? " long"
+        : "";
+    events.push(`${event.type}${detail}@${at}`);
+  };
+  button
+    .onPress(record)
+    .onRelease(record)
+    .onClick(record)
+    .onLongPress(record)
+    .onRepeat(record);
+  return { button, events };
+}
+
+/** Let the simulator deliver queued edges */
+function deliver(): Promise<void> {
+  return Bun.sleep(0);
+}
+
+/** Press the button (active low), then let the edge arrive */
+async function press(): Promise<void> {
+  simChip.drive(PIN, false);
+  await deliver();
+}
+
+async function release(): Promise<void> {
+  simChip.drive(PIN, true);
+  await deliver();
+}
+
+describe("clicks", () => {
+  test("are reported once the multi-click gap has passed", async () => {
+    const { events } = createButton({ multiClickMs: 300 });
+
+    await press();
+    scheduler.advance(80);
+    await release();
+    scheduler.advance(299);
+    expect(events).toEqual(["press@0", "release@80"]);
+
+    scheduler.advance(1);
+    expect(events).toEqual(["press@0", "release@80", "click x1@80"]);
+  });
+
+  test("within the gap are counted together", async () => {
+    const { events } = createButton({ multiClickMs: 300 });
+
+    await press();
+    scheduler.advance(50);
+    await release();
+    scheduler.advance(200);
+    await press();
+    scheduler.advance(50);
+    await release();
+    scheduler.advance(300);
+
+    expect(events.filter((event) => event.startsWith("click"))).toEqual([
+      "click x2@300",
+    ]);
+  });
+
+  test("are reported at once without a multi-click gap", async () => {
+    const { events } = createButton({ multiClickMs: 0 });
+
+    await press();
+    scheduler.advance(30);
+    await release();
+
+    expect(events).toEqual(["press@0", "release@30", "click x1@30"]);
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+
+  test("end when the next press comes after the gap by the edge times", async () => {
+    const { events } = createButton({ multiClickMs: 100 });
+
+    await press();
+    scheduler.advance(20);
+    await release();
+    // The next press happened 150 ms later, but arrives with the timer due
+    simChip.drive(PIN, false, { timestampNs: START_NS + 170n * MS });
+    scheduler.advance(150);
+    await deliver();
+
+    expect(events).toEqual([
+      "press@0",
+      "release@20",
+      "click x1@20",
+      "press@170",
+    ]);
+  });
+});
+
+describe("long presses", () => {
+  test("are reported while the button is held", async () => {
+    const { events } = createButton({ longPressMs: 500 });
+
+    await press();
+    scheduler.advance(499);
+    expect(events).toEqual(["press@0"]);
+
+    scheduler.advance(1);
+    await release();
+    scheduler.advance(1000);
+
+    expect(events).toEqual(["press@0", "long-press@500", "release long@500"]);
+  });
+
+  test("are timed from the edge, not from its delivery", async () => {
+    const { events } = createButton({ longPressMs: 500 });
+
+    simChip.drive(PIN, false);
+    scheduler.advance(150);
+    await deliver();
+    scheduler.advance(349);
+    expect(events).toEqual(["press@0"]);
+
+    scheduler.advance(1);
+    expect(events).toEqual(["press@0", "long-press@500"]);
+  });
+
+  test("report clicks that came before them first", async () => {
+    const { events } = createButton({ longPressMs: 200, multiClickMs: 300 });
+
+    await press();
+    scheduler.advance(50);
+    await release();
+    scheduler.advance(100);
+    await press();
+    scheduler.advance(200);
+
+    expect(events).toEqual([
+      "press@0",
+      "release@50",
+      "press@150",
+      "click x1@50",
+      "long-press@350",
+    ]);
+  });
+
+  test("arrive on time with kernel timestamps on the system clock", async () => {
+    const sim = new GPIOSimulator();
+    const chip = sim.addChip();
+    const systemGpio = new GPIO(chip.path, { backend: sim });
+    const button = new Button(systemGpio, PIN, {
+      debounceMs: 0,
+      longPressMs: 50,
+    });
+
+    try {
+      const longPress = new Promise<bigint>((resolve) =>
+        button.onLongPress((event) => resolve(event.durationNs))
+      );
+      const timeout = Bun.sleep(500).then(() => null);
+      // Stamped like the kernel does, on CLOCK_MONOTONIC
+      chip.drive(PIN, false, { timestampNs: monotonicNs() });
+
+      expect(await Promise.race([longPress, timeout])).toBe(50n * MS);
+    } finally {
+      systemGpio.close();
+    }
+  });
+});
+
+describe("repeats", () => {
+  test("follow the long press at the repeat interval", async () => {
+    const { events } = createButton({ longPressMs: 300, repeatMs: 100 });
+
+    await press();
+    scheduler.advance(550);
+    await release();
+    scheduler.advance(500);
+
+    expect(events).toEqual([
+      "press@0",
+      "long-press@300",
+      "repeat x1@300",
+      "repeat x2@400",
+      "repeat x3@500",
+      "release long@550",
+    ]);
+  });
+
+  test("can start before the long press", async () => {
+    const { events } = createButton({
+      longPressMs: 300,
+      repeatMs: 100,
+      repeatDelayMs: 150,
+    });
+
+    await press();
+    scheduler.advance(300);
+
+    expect(events).toEqual([
+      "press@0",
+      "repeat x1@150",
+      "repeat x2@250",
+      "long-press@300",
+    ]);
+  });
+});
+
+describe("button", () => {
+  test("ignores contact bounce within the debounce time", async () => {
+    const { events } = createButton({ debounceMs: 20, multiClickMs: 0 });
+
+    simChip.bounce(PIN, false, { bounces: 3, intervalNs: 1n * MS });
+    await deliver();
+    scheduler.advance(30);
+    simChip.bounce(PIN, true, { bounces: 2, intervalNs: 1n * MS });
+    await deliver();
+    scheduler.advance(30);
+
+    // Each bounce ends with its last transition
+    expect(events).toEqual(["press@6", "release@34", "click x1@34"]);
+  });
+
+  test("has no gestures for a press that started before it", async () => {
+    simChip.drive(PIN, false);
+    const { button, events } = createButton();
+    expect(button.pressed).toBe(true);
+
+    await release();
+    scheduler.advance(1000);
+
+    expect(events).toEqual([]);
+    expect(button.pressed).toBe(false);
+  });
+
+  test("stops its timers when closed", async () => {
+    const { button } = createButton();
+
+    await press();
+    button.close();
+
+    expect(scheduler.pendingTimers).toBe(0);
+    expect(button.closed).toBe(true);
+  });
+});
@@ -0,0 +1,515 @@
+/**
+ * Push buttons with press, long-press, hold-repeat and multi-click gestures
+ *
+ * A Button requests its line as a debounced, active-low input by default and
+ * turns the edges into gestures. Durations are measured from the kernel
+ * timestamps of the edges; long presses, repeats and the end of a click
+ * sequence are timed with the scheduler of the chip, counting from the edge
+ * on the clock of its timestamp.
+ *
+ * @example
+ * ```typescript
+ * const button = new Button(chip, 18, { longPressMs: 800 });
+ * button.onClick(({ count }) => console.log(count === 2 ? "double" : "single"));
+ * button.onLongPress(() => console.log("long press"));
+ * ```
+ */
+
+import type { BiasSetting, EdgeEvent, GPIO, GPIOInput } from "./gpio";
+import {
+  InvalidArgumentError,
+  reportError,
+  type ErrorCallback,
+} from "./errors";
+import type { Scheduler, TimerHandle } from "./scheduler";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Options for a button */
+export interface ButtonOptions {
+  /** Whether the button pulls its line low when pressed (default: true) */
+  activeLow?: boolean;
+  /** Internal bias resistor setting (default: "pull-up") */
+  bias?: BiasSetting;
+  /** Debounce period in milliseconds (default: 20) */
+  debounceMs?: number;
+  /** How long the button is held before a long press (default: 1000) */
+  longPressMs?: number;
+  /**
+   * Interval of repeat events while the button is held, in milliseconds
+   * (default: no repeats)
+   */
+  repeatMs?: number;
+  /** How long the button is held before repeats start (default: longPressMs) */
+  repeatDelayMs?: number;
+  /**
+   * Longest gap between a release and the next press of a multi-click,
+   * in milliseconds. 0 reports every click at once (default: 300)
+   */
+  multiClickMs?: number;
+}
+
+/** The button was pressed */
+export interface ButtonPressEvent {
+  type: "press";
+  /** When the button was pressed, in nanoseconds */
+  timestampNs: bigint;
+}
+
+/** The button was released */
+export interface ButtonReleaseEvent {
+  type: "release";
+  /** When the button was released, in nanoseconds */
+  timestampNs: bigint;
+  /** How long the button was held, in nanoseconds */
+  durationNs: bigint;
+  /** Whether the press was long enough to be a long press */
+  long: boolean;
+}
+
+/** One or more short presses in quick succession */
+export interface ButtonClickEvent {
+  type: "click";
+  /** Number of clicks, 2 for a double-click */
+  count: number;
+  /** When the last click was released, in nanoseconds */
+  timestampNs: bigint;
+  /** Time from the first press to the last release, in nanoseconds */
+  durationNs: bigint;
+}
+
+/** The button has been held for the long-press time */
+export interface ButtonLongPressEvent {
+  type: "long-press";
+  /** When the long-press time was reached, in nanoseconds */
+  timestampNs: bigint;
+  /** How long the button has been held, in nanoseconds */
+  durationNs: bigint;
+}
+
+/** The button is still held, reported every repeat interval */
+export interface ButtonRepeatEvent {
+  type: "repeat";
+  /** Number of the repeat, starting at 1 */
+  count: number;
+  /** When the repeat happened, in nanoseconds */
+  timestampNs: bigint;
+  /** How long the button has been held, in nanoseconds */
+  durationNs: bigint;
+}
+
+/** Any event reported by a button */
+export type ButtonEvent =
+  | ButtonPressEvent
+  | ButtonReleaseEvent
+  | ButtonClickEvent
+  | ButtonLongPressEvent
+  | ButtonRepeatEvent;
+
+/** Callback for button events of one type */
+export type ButtonEventCallback<T extends ButtonEvent = ButtonEvent> = (
+  event: T
+) => void;
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Check that a duration option is a non-negative number of milliseconds */
+function validateMs(name: string, ms: number | undefined): void {
+  if (ms !== undefined && !(ms >= 0 && Number.isFinite(ms))) {
+    throw new InvalidArgumentError(`${name} must be a non-negative duration`);
+  }
+}
+
+/** Convert milliseconds to nanoseconds */
+function msToNs(ms: number): bigint {
+  return BigInt(Math.round(ms * 1_000_000));
+}
+
+// =============================================================================
+// Button Class
+// =============================================================================
+
+/**
+ * Push button reporting presses, releases, clicks, long presses and repeats
+ */
+export class Button {
+  private readonly input: GPIOInput;
+  private readonly scheduler: Scheduler;
+  private readonly longPressNs: bigint;
+  private readonly repeatNs: bigint | null;
+  private readonly repeatDelayNs: bigint;
+  private readonly multiClickMs: number;
+
+  private _pressed: boolean;
+  /** When the current press started, null if it started before the button */
+  private pressNs: bigint | null = null;
+  private longPressed: boolean = false;
+  private repeats: number = 0;
+  private clicks: number = 0;
+  private firstClickNs: bigint = 0n;
+  private lastReleaseNs: bigint = 0n;
+  private holdTimer: TimerHandle | null = null;
+  private clickTimer: TimerHandle | null = null;
+  private _closed: boolean = false;
+
+  private callbacks: {
+    [K in ButtonEvent["type"]]: ButtonEventCallback<
+      Extract<ButtonEvent, { type: K }>
+    >[];
+  } = {
+    press: [],
+    release: [],
+    click: [],
+    "long-press": [],
+    repeat: [],
+  };
+  private errorCallbacks: ErrorCallback[] = [];
+
+  /**
+   * @param chip Chip the button is connected to
+   * @param pin GPIO pin of the button
+   * @param options Wiring and gesture thresholds
+   * @throws {InvalidArgumentError} If a threshold is invalid
+   * @throws {LineBusyError} If the line is in use
+   */
+  constructor(chip: GPIO, pin: number, options: ButtonOptions = {}) {
+    const {
+      activeLow = true,
+      bias = "pull-up",
+      debounceMs = 20,
+      longPressMs = 1000,
+      repeatMs,
+      repeatDelayMs = longPressMs,
+      multiClickMs = 300,
+    } = options;
+
+    validateMs("Long-press time", longPressMs);
+    validateMs("Repeat delay", repeatDelayMs);
+    validateMs("Multi-click gap", multiClickMs);
+    if (
+      repeatMs !== undefined &&
+      !(repeatMs > 0 && Number.isFinite(repeatMs))
+    ) {
+      throw new InvalidArgumentError("Repeat interval must be greater than 0");
+    }
+
+    this.longPressNs = msToNs(longPressMs);
+    this.repeatNs = repeatMs === undefined ? null : msToNs(repeatMs);
+    this.repeatDelayNs = msToNs(repeatDelayMs);
+    this.multiClickMs = multiClickMs;
+
+    this.input = chip.input(pin, {
+      edge: "both",
+      activeLow,
+      bias,
+      debounceMs,
+    });
+    this.scheduler = this.input.scheduler;
+    this._pressed = this.input.read();
+
+    this.input.onEdge((event) => this.handleEdge(event));
+    this.input.onError((err) => this.reportError(err));
+  }
+
+  /** GPIO pin of the button */
+  get pin(): number {
+    return this.input.pin;
+  }
+
+  /** Whether the button is pressed */
+  get pressed(): boolean {
+    return this._pressed;
+  }
+
+  /** Whether the button has been closed */
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  private handleEdge(event: EdgeEvent): void {
+    const pressed = event.type === "rising";
+    if (pressed === this._pressed) {
+      return;
+    }
+    this._pressed = pressed;
+
+    if (pressed) {
+      this.handlePress(event.timestampNs);
+    } else {
+      this.handleRelease(event.timestampNs);
+    }
+  }
+
+  private handlePress(timestampNs: bigint): void {
+    this.cancelClickTimer();
+    // The gap may have passed before the timer ran, going by the edge times
+    if (
+      this.clicks > 0 &&
+      timestampNs - this.lastReleaseNs > msToNs(this.multiClickMs)
+    ) {
+      this.emitClick();
+    }
+
+    this.pressNs = timestampNs;
+    this.longPressed = false;
+    this.repeats = 0;
+    this.emit({ type: "press", timestampNs });
+    this.scheduleHold();
+  }
+
+  private handleRelease(timestampNs: bigint): void {
+    this.cancelHold();
+    const pressNs = this.pressNs;
+    this.pressNs = null;
+    // A press that started before the button was created has no gestures
+    if (pressNs === null) {
+      return;
+    }
+
+    const durationNs = timestampNs - pressNs;
+    const long = this.longPressed || durationNs >= this.longPressNs;
+    this.emit({ type: "release", timestampNs, durationNs, long });
+
+    if (long) {
+      this.flushClicks();
+      return;
+    }
+
+    if (this.clicks === 0) {
+      this.firstClickNs = pressNs;
+    }
+    this.clicks++;
+    this.lastReleaseNs = timestampNs;
+
+    if (this.multiClickMs === 0) {
+      this.emitClick();
+    } else {
+      this.clickTimer = this.scheduler.setTimeout(() => {
+        this.clickTimer = null;
+        this.emitClick();
+      }, this.remainingMs(timestampNs, msToNs(this.multiClickMs)));
+    }
+  }
+
+  /**
+   * Milliseconds until a time after an edge, accounting for the delay in
+   * delivering the edge. Elapsed time is read on the clock of the edge
+   * timestamps; with the hardware timestamp engine it is taken as 0.
+   */
+  private remainingMs(fromNs: bigint, afterNs: bigint): number {
+    const elapsedNs = (this.input.clockNowNs() ?? fromNs) - fromNs;
+    return Math.max(Number(afterNs - elapsedNs) / 1e6, 0);
+  }
+
+  /** Time after the press of the next repeat, null without repeats */
+  private nextRepeatNs(): bigint | null {
+    return this.repeatNs === null
+      ? null
+      : this.repeatDelayNs + BigInt(this.repeats) * this.repeatNs;
+  }
+
+  /** Start the timer for the next long press or repeat of the held button */
+  private scheduleHold(): void {
+    const pressNs = this.pressNs!;
+    const repeatNs = this.nextRepeatNs();
+    let dueNs = this.longPressed ? repeatNs : this.longPressNs;
+    if (dueNs === null || (repeatNs !== null && repeatNs < dueNs)) {
+      dueNs = repeatNs;
+    }
+    if (dueNs === null) {
+      return;
+    }
+
+    const holdNs = dueNs;
+    this.holdTimer = this.scheduler.setTimeout(() => {
+      this.holdTimer = null;
+      this.handleHold(pressNs + holdNs);
+    }, this.remainingMs(pressNs, holdNs));
+  }
+
+  private handleHold(timestampNs: bigint): void {
+    const durationNs = timestampNs - this.pressNs!;
+    if (!this.longPressed && durationNs >= this.longPressNs) {
+      this.longPressed = true;
+      // Clicks before the long press are reported first
+      this.flushClicks();
+      this.emit({ type: "long-press", timestampNs, durationNs });
+    }
+    const repeatNs = this.nextRepeatNs();
+    if (repeatNs !== null && durationNs >= repeatNs) {
+      this.repeats++;
+      this.emit({
+        type: "repeat",
+        count: this.repeats,
+        timestampNs,
+        durationNs,
+      });
+    }
+    // Callbacks may have closed the button
+    if (this._pressed && !this._closed) {
+      this.scheduleHold();
+    }
+  }
+
+  private cancelHold(): void {
+    if (this.holdTimer !== null) {
+      this.scheduler.clearTimeout(this.holdTimer);
+      this.holdTimer = null;
+    }
+  }
+
+  private cancelClickTimer(): void {
+    if (this.clickTimer !== null) {
+      this.scheduler.clearTimeout(this.clickTimer);
+      this.clickTimer = null;
+    }
+  }
+
+  /** Report the clicks of a sequence that cannot continue */
+  private flushClicks(): void {
+    if (this.clicks > 0) {
+      this.emitClick();
+    }
+  }
+
+  private emitClick(): void {
+    const count = this.clicks;
+    this.clicks = 0;
+    this.emit({
+      type: "click",
+      count,
+      timestampNs: this.lastReleaseNs,
+      durationNs: this.lastReleaseNs - this.firstClickNs,
+    });
+  }
+
+  private emit(event: ButtonEvent): void {
+    const callbacks = this.callbacks[event.type] as ButtonEventCallback[];
+    for (const callback of [...callbacks]) {
+      try {
+        callback(event);
+      } catch (err) {
+        this.reportError(err);
+      }
+    }
+  }
+
+  private on<K extends ButtonEvent["type"]>(
+    type: K,
+    callback: ButtonEventCallback<Extract<ButtonEvent, { type: K }>>
+  ): this {
+    this.callbacks[type].push(callback);
+    return this;
+  }
+
+  private off<K extends ButtonEvent["type"]>(
+    type: K,
+    callback: ButtonEventCallback<Extract<ButtonEvent, { type: K }>>
+  ): this {
+    const callbacks = this.callbacks[type];
+    const index = callbacks.indexOf(callback);
+    if (index !== -1) {
+      callbacks.splice(index, 1);
+    }
+    return this;
+  }
+
+  /** Register a callback for presses */
+  onPress(callback: ButtonEventCallback<ButtonPressEvent>): this {
+    return this.on("press", callback);
+  }
+
+  /** Remove a press callback */
+  offPress(callback: ButtonEventCallback<ButtonPressEvent>): this {
+    return this.off("press", callback);
+  }
+
+  /** Register a callback for releases, including those of long presses */
+  onRelease(callback: ButtonEventCallback<ButtonReleaseEvent>): this {
+    return this.on("release", callback);
+  }
+
+  /** Remove a release callback */
+  offRelease(callback: ButtonEventCallback<ButtonReleaseEvent>): this {
+    return this.off("release", callback);
+  }
+
+  /**
+   * Register a callback for clicks. Short presses in quick succession are
+   * reported once, with their count, when no further press follows.
+   */
+  onClick(callback: ButtonEventCallback<ButtonClickEvent>): this {
+    return this.on("click", callback);
+  }
+
+  /** Remove a click callback */
+  offClick(callback: ButtonEventCallback<ButtonClickEvent>): this {
+    return this.off("click", callback);
+  }
+
+  /** Register a callback for long presses, reported while the button is held */
+  onLongPress(callback: ButtonEventCallback<ButtonLongPressEvent>): this {
+    return this.on("long-press", callback);
+  }
+
+  /** Remove a long-press callback */
+  offLongPress(callback: ButtonEventCallback<ButtonLongPressEvent>): this {
+    return this.off("long-press", callback);
+  }
+
+  /** Register a callback for repeats while the button is held */
+  onRepeat(callback: ButtonEventCallback<ButtonRepeatEvent>): this {
+    return this.on("repeat", callback);
+  }
+
+  /** Remove a repeat callback */
+  offRepeat(callback: ButtonEventCallback<ButtonRepeatEvent>): this {
+    return this.off("repeat", callback);
+  }
+
+  /**
+   * Register a callback for exceptions thrown by event callbacks and for
+   * errors of the button line.
+   * Without callbacks, these errors are rethrown as uncaught exceptions.
+   */
+  onError(callback: ErrorCallback): this {
+    this.errorCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Remove an error callback
+   */
+  offError(callback: ErrorCallback): this {
+    const index = this.errorCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.errorCallbacks.splice(index, 1);
+    }
+    return this;
+  }
+
+  private reportError(error: unknown): void {
+    reportError(this.errorCallbacks, error);
+  }
+
+  /** Stop the gesture timers and release the line */
+  close(): void {
+    if (this._closed) {
+      return;
+    }
+    this._closed = true;
+    this.cancelHold();
+    this.cancelClickTimer();
+    this.clicks = 0;
+    this.input.close();
+  }
+
+  /** Release the line when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+}
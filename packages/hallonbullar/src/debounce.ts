@@ -0,0 +1,92 @@
+/**
+ * Userspace debounce and glitch filter for edge events
+ *
+ * Used when the GPIO chip ignores the hardware debounce setting. With edge
+ * detection on both edges, an edge is only passed on once the line has been
+ * stable for the configured time, so bounces and glitches shorter than that
+ * are dropped entirely. With a single edge there is no way to see the line
+ * settle, so edges are passed on immediately and any further edges within
+ * the stable time of the previous one are dropped.
+ */
+
+import type { EdgeEvent, EdgeSetting } from "./gpio";
+import { systemScheduler, type Scheduler, type TimerHandle } from "./scheduler";
+
+/**
+ * Debounces the edge events of one input
+ */
+export class EdgeDebouncer {
+  private readonly stableMs: number;
+  private readonly stableNs: bigint;
+  private readonly edge: EdgeSetting;
+  private readonly emit: (event: EdgeEvent) => void;
+  private readonly scheduler: Scheduler;
+
+  private pending: EdgeEvent | null = null;
+  private timer: TimerHandle | null = null;
+  private lastType: EdgeEvent["type"] | null = null;
+  private lastSeenNs: bigint | null = null;
+
+  constructor(
+    stableMs: number,
+    edge: EdgeSetting,
+    emit: (event: EdgeEvent) => void,
+    scheduler: Scheduler = systemScheduler
+  ) {
+    this.stableMs = stableMs;
+    this.stableNs = BigInt(Math.round(stableMs * 1_000_000));
+    this.edge = edge;
+    this.emit = emit;
+    this.scheduler = scheduler;
+  }
+
+  /** Feed a raw edge event into the filter */
+  push(event: EdgeEvent): void {
+    if (this.edge === "both") {
+      this.settle(event);
+    } else {
+      this.lockout(event);
+    }
+  }
+
+  private settle(event: EdgeEvent): void {
+    // The line changed again before it was stable, so the previous edge
+    // was a bounce or a glitch
+    this.pending = event;
+    if (this.timer !== null) {
+      this.scheduler.clearTimeout(this.timer);
+    }
+
+    this.timer = this.scheduler.setTimeout(() => {
+      this.timer = null;
+      const settled = this.pending;
+      this.pending = null;
+
+      // Ignore glitches that ended at the level we already reported
+      if (settled && settled.type !== this.lastType) {
+        this.lastType = settled.type;
+        this.emit(settled);
+      }
+    }, this.stableMs);
+  }
+
+  private lockout(event: EdgeEvent): void {
+    const quiet =
+      this.lastSeenNs === null ||
+      event.timestampNs - this.lastSeenNs >= this.stableNs;
+    this.lastSeenNs = event.timestampNs;
+
+    if (quiet) {
+      this.emit(event);
+    }
+  }
+
+  /** Drop any pending edge and stop the settle timer */
+  dispose(): void {
+    if (this.timer !== null) {
+      this.scheduler.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = null;
+  }
+}
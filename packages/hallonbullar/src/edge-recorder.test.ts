@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { EdgeRecorder, type RecordedChange } from "./edge-recorder";
+import { InvalidArgumentError } from "./errors";
+import { GPIO, type GPIOInput, type GPIOOutput } from "./gpio";
+import { GPIOSimulator, type SimulatedChip } from "./gpio-simulator";
+import { monotonicNs, VirtualScheduler } from "./scheduler";
+
+const START_NS = 1_000_000_000n;
+const MS = 1_000_000n;
+const DATE = new Date("2024-01-01T00:00:00.000Z");
+
+let scheduler: VirtualScheduler;
+let simChip: SimulatedChip;
+let gpio: GPIO;
+let sensor: GPIOInput;
+let trigger: GPIOOutput;
+let recorder: EdgeRecorder;
+
+beforeEach(() => {
+  scheduler = new VirtualScheduler(START_NS);
+  const sim = new GPIOSimulator({ scheduler });
+  simChip = sim.addChip();
+  gpio = new GPIO(simChip.path, { backend: sim, scheduler });
+  sensor = gpio.input(17, { edge: "both", bias: "pull-down" });
+  trigger = gpio.output(18);
+  recorder = new EdgeRecorder()
+    .record(sensor, "sensor")
+    .record(trigger, "trigger");
+});
+
+afterEach(() => {
+  recorder.close();
+  gpio.close();
+});
+
+/** Write the trigger, answered by the sensor `delayMs` later */
+async function ping(delayMs: number, highMs: number): Promise<void> {
+  trigger.write(true);
+  scheduler.advance(delayMs);
+  simChip.drive(17, true);
+  await Bun.sleep(0);
+  scheduler.advance(highMs);
+  trigger.write(false);
+  simChip.drive(17, false);
+  await Bun.sleep(0);
+}
+
+/** Times of the recorded changes relative to the start, in milliseconds */
+function timeline(changes: RecordedChange[]): string[] {
+  return changes.map(
+    ({ signal, value, timestampNs }) =>
+      `${signal}=${value ? 1 : 0}@${(timestampNs - START_NS) / MS}`
+  );
+}
+
+describe("record", () => {
+  test("keeps inputs and outputs on one timeline", async () => {
+    scheduler.advance(5);
+    await ping(2, 3);
+
+    expect(timeline(recorder.changes())).toEqual([
+      "trigger=1@5",
+      "sensor=1@7",
+      "trigger=0@10",
+      "sensor=0@10",
+    ]);
+    expect(recorder.changes().map((change) => change.precise)).toEqual([
+      false,
+      true,
+      false,
+      true,
+    ]);
+  });
+
+  test("orders outputs after inputs with kernel timestamps on the system clock", async () => {
+    const sim = new GPIOSimulator();
+    const chip = sim.addChip();
+    const systemGpio = new GPIO(chip.path, { backend: sim });
+    const input = systemGpio.input(17, { edge: "both", bias: "pull-down" });
+    const output = systemGpio.output(18);
+    const systemRecorder = new EdgeRecorder().record(input).record(output);
+
+    try {
+      // Stamped like the kernel does, on CLOCK_MONOTONIC
+      chip.drive(17, true, { timestampNs: monotonicNs() });
+      await Bun.sleep(0);
+      output.write(true);
+
+      expect(
+        systemRecorder.toVCD({ date: DATE }).split("\n").slice(-3)
+      ).toEqual([expect.stringMatching(/^#\d+$/), '1"', ""]);
+      expect(systemRecorder.changes().map((change) => change.pin)).toEqual([
+        17, 18,
+      ]);
+      const [edge, write] = systemRecorder.changes();
+      expect(write!.timestampNs).toBeGreaterThan(edge!.timestampNs);
+    } finally {
+      systemRecorder.close();
+      systemGpio.close();
+    }
+  });
+
+  test("drops the oldest changes once the buffer is full", async () => {
+    const small = new EdgeRecorder({ capacity: 2 }).record(trigger);
+
+    trigger.write(true);
+    scheduler.advance(1);
+    trigger.write(false);
+    scheduler.advance(1);
+    trigger.write(true);
+
+    expect(small.size).toBe(2);
+    expect(small.dropped).toBe(1);
+    expect(small.toVCD({ date: DATE, timescale: "1ms" })).toContain(
+      "$dumpvars\n1!\n$end\n#1\n0!\n#2\n1!\n"
+    );
+    small.close();
+  });
+
+  test("requires both edges on the monotonic clock", () => {
+    const rising = gpio.input(5, { edge: "rising" });
+    const realtime = gpio.input(6, { edge: "both", clock: "realtime" });
+
+    expect(() => recorder.record(rising)).toThrow(InvalidArgumentError);
+    expect(() => recorder.record(realtime)).toThrow(InvalidArgumentError);
+  });
+});
+
+describe("toVCD", () => {
+  test("dumps inputs and outputs relative to the start of the capture", async () => {
+    scheduler.advance(5);
+    await ping(2, 3);
+
+    expect(recorder.toVCD({ date: DATE, timescale: "1ms" })).toBe(
+      [
+        "$date 2024-01-01T00:00:00.000Z $end",
+        "$version hallonbullar $end",
+        "$timescale 1ms $end",
+        "$scope module gpio $end",
+        "$var wire 1 ! sensor $end",
+        '$var wire 1 " trigger $end',
+        "$upscope $end",
+        "$enddefinitions $end",
+        "#0",
+        "$dumpvars",
+        "0!",
+        '0"',
+        "$end",
+        "#5",
+        '1"',
+        "#7",
+        "1!",
+        "#10",
+        '0"',
+        "0!",
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("replay", () => {
+  test("keeps the gaps between inputs and outputs", async () => {
+    await ping(2, 3);
+    scheduler.advance(10);
+    await ping(4, 1);
+
+    const replayed: string[] = [];
+    const done = recorder.replay(
+      (change) =>
+        replayed.push(
+          `${change.signal}=${change.value ? 1 : 0}@${
+            (scheduler.nowNs() - START_NS) / MS
+          }`
+        ),
+      { scheduler, speed: 2 }
+    );
+    const replayStart = scheduler.nowNs() - START_NS;
+    scheduler.advance(100);
+    await done;
+
+    // Recorded at 0, 2, 5, 5, 15, 19, 20 and 20 ms, replayed twice as fast
+    const at = (ms: bigint) => replayStart / MS + ms;
+    expect(replayed).toEqual([
+      `trigger=1@${at(0n)}`,
+      `sensor=1@${at(1n)}`,
+      `trigger=0@${at(2n)}`,
+      `sensor=0@${at(2n)}`,
+      `trigger=1@${at(7n)}`,
+      `sensor=1@${at(9n)}`,
+      `trigger=0@${at(10n)}`,
+      `sensor=0@${at(10n)}`,
+    ]);
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+
+  test("stops when aborted", async () => {
+    await ping(2, 3);
+    const controller = new AbortController();
+    const replayed: RecordedChange[] = [];
+    const done = recorder.replay((change) => replayed.push(change), {
+      scheduler,
+      signal: controller.signal,
+    });
+
+    scheduler.advance(1);
+    controller.abort(new Error("stopped"));
+
+    await expect(done).rejects.toThrow("stopped");
+    expect(replayed).toHaveLength(1);
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+});
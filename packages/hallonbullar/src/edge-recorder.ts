@@ -0,0 +1,431 @@
+/**
+ * Edge capture for debugging signals
+ *
+ * An EdgeRecorder keeps the edges of inputs and the changes of outputs in a
+ * ring buffer, with kernel timestamps for inputs. A capture can be written
+ * as a Value Change Dump (VCD) file for GTKWave or PulseView, or replayed
+ * into a callback with its original timing.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new EdgeRecorder({ capacity: 50_000 });
+ * recorder.record(chip.input(17, { edge: "both" }), "sensor");
+ * recorder.record(chip.output(18), "trigger");
+ *
+ * await Bun.sleep(5000);
+ * await Bun.write("capture.vcd", recorder.toVCD());
+ * ```
+ */
+
+import {
+  GPIOInput,
+  type EdgeCallback,
+  type EdgeEvent,
+  type GPIOOutput,
+  type LevelChange,
+  type LevelChangeCallback,
+} from "./gpio";
+import { InvalidArgumentError } from "./errors";
+import { systemScheduler, type Scheduler, type TimerHandle } from "./scheduler";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Options for an edge recorder */
+export interface EdgeRecorderOptions {
+  /** Number of changes kept before the oldest are dropped (default: 10000) */
+  capacity?: number;
+}
+
+/** A change captured by an edge recorder */
+export interface RecordedChange {
+  /** Name of the signal */
+  signal: string;
+  /** GPIO pin of the signal */
+  pin: number;
+  /** Whether the change is an input edge or an output write */
+  source: "input" | "output";
+  /** Level the signal changed to */
+  value: boolean;
+  /** When the change happened, in nanoseconds */
+  timestampNs: bigint;
+  /** Whether the timestamp comes from a kernel edge event */
+  precise: boolean;
+}
+
+/** Options for EdgeRecorder.toVCD() */
+export interface VCDOptions {
+  /** Time unit of the dump (default: "1ns") */
+  timescale?: "1ns" | "1us" | "1ms";
+  /** Name of the scope holding the signals (default: "gpio") */
+  scope?: string;
+  /** Date written to the header (default: now) */
+  date?: Date;
+}
+
+/** Options for EdgeRecorder.replay() */
+export interface ReplayOptions {
+  /** Playback speed, 2 for twice as fast, Infinity for no delays (default: 1) */
+  speed?: number;
+  /** Scheduler used to wait between changes (default: the system scheduler) */
+  scheduler?: Scheduler;
+  /** Stops the replay when aborted */
+  signal?: AbortSignal;
+}
+
+/** A recorded source and how to stop recording it */
+interface RecordedSignal {
+  name: string;
+  pin: number;
+  /** Level before the oldest change in the buffer */
+  initial: boolean;
+  /** When the initial level was read */
+  startNs: bigint;
+  stop: () => void;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+const TIMESCALE_NS = { "1ns": 1n, "1us": 1_000n, "1ms": 1_000_000n };
+
+/** VCD identifier for the n-th signal, using the printable ASCII range */
+function vcdIdentifier(index: number): string {
+  let id = "";
+  do {
+    id += String.fromCharCode(33 + (index % 94));
+    index = Math.floor(index / 94) - 1;
+  } while (index >= 0);
+  return id;
+}
+
+/**
+ * Current time on the clock of a source's timestamps. Output changes are
+ * stamped by the scheduler of their GPIO controller, which reads
+ * CLOCK_MONOTONIC like the kernel stamps monotonic edge events, or drives
+ * the simulated monotonic clock under a VirtualScheduler.
+ */
+function nowOf(source: GPIOInput | GPIOOutput): bigint {
+  return source.scheduler.nowNs();
+}
+
+/** Current level of a recorded source */
+function levelOf(source: GPIOInput | GPIOOutput): boolean {
+  return source instanceof GPIOInput ? source.read() : source.state;
+}
+
+/** Order changes by time, keeping the recording order on ties */
+function byTimestamp(changes: RecordedChange[]): RecordedChange[] {
+  return changes.sort((a, b) =>
+    a.timestampNs < b.timestampNs ? -1 : a.timestampNs > b.timestampNs ? 1 : 0
+  );
+}
+
+/** VCD references cannot contain whitespace */
+function vcdName(name: string): string {
+  return name.replace(/\s+/g, "_");
+}
+
+// =============================================================================
+// EdgeRecorder Class
+// =============================================================================
+
+/**
+ * Records edges of inputs and changes of outputs into a ring buffer
+ */
+export class EdgeRecorder {
+  private readonly capacity: number;
+  private buffer: (RecordedChange | undefined)[];
+  private head: number = 0;
+  private count: number = 0;
+  private _dropped: number = 0;
+  private sources: Map<GPIOInput | GPIOOutput, RecordedSignal> = new Map();
+  /** Every signal in the capture, including those no longer recorded */
+  private signals: RecordedSignal[] = [];
+
+  constructor(options: EdgeRecorderOptions = {}) {
+    const { capacity = 10_000 } = options;
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new InvalidArgumentError("Capacity must be a positive integer");
+    }
+    this.capacity = capacity;
+    this.buffer = new Array(capacity);
+  }
+
+  /** Number of changes in the buffer */
+  get size(): number {
+    return this.count;
+  }
+
+  /** Number of changes dropped because the buffer was full */
+  get dropped(): number {
+    return this._dropped;
+  }
+
+  /**
+   * Start recording an input or output.
+   * Inputs are recorded through their edge events, so they must report both
+   * edges. Their events must also be stamped on the monotonic clock, the
+   * clock the scheduler stamps output changes with, so that inputs and
+   * outputs share one timeline.
+   * @param source Input or output to record
+   * @param name Name of the signal (default: "pinN")
+   * @throws {InvalidArgumentError} If an input does not report both edges
+   *   on the monotonic clock
+   */
+  record(source: GPIOInput | GPIOOutput, name?: string): this {
+    if (this.sources.has(source)) {
+      return this;
+    }
+    if (source instanceof GPIOInput) {
+      if (source.edge !== "both") {
+        throw new InvalidArgumentError(
+          `Recording pin ${source.pin} requires edge: "both"`
+        );
+      }
+      if (source.clock !== "monotonic") {
+        throw new InvalidArgumentError(
+          `Recording pin ${source.pin} requires the monotonic event clock`
+        );
+      }
+    }
+
+    const signal: RecordedSignal = {
+      name: name ?? `pin${source.pin}`,
+      pin: source.pin,
+      initial: levelOf(source),
+      startNs: nowOf(source),
+      stop: () => {},
+    };
+
+    if (source instanceof GPIOInput) {
+      const callback: EdgeCallback = (event: EdgeEvent) =>
+        this.push({
+          signal: signal.name,
+          pin: signal.pin,
+          source: "input",
+          value: event.type === "rising",
+          timestampNs: event.timestampNs,
+          precise: true,
+        });
+      source.onEdge(callback);
+      signal.stop = () => source.offEdge(callback);
+    } else {
+      const callback: LevelChangeCallback = (change: LevelChange) =>
+        this.push({
+          signal: signal.name,
+          pin: signal.pin,
+          source: "output",
+          value: change.value,
+          timestampNs: change.timestampNs,
+          precise: change.precise,
+        });
+      source.onChange(callback);
+      signal.stop = () => source.offChange(callback);
+    }
+
+    this.sources.set(source, signal);
+    this.signals.push(signal);
+    return this;
+  }
+
+  /**
+   * Stop recording a source, or every source. Recorded changes are kept.
+   * @param source Input or output to stop recording (default: all)
+   */
+  stop(source?: GPIOInput | GPIOOutput): this {
+    const sources = source ? [source] : [...this.sources.keys()];
+    for (const key of sources) {
+      this.sources.get(key)?.stop();
+      this.sources.delete(key);
+    }
+    return this;
+  }
+
+  private push(change: RecordedChange): void {
+    const index = (this.head + this.count) % this.capacity;
+    if (this.count === this.capacity) {
+      // The oldest change becomes the starting level of its signal
+      const oldest = this.buffer[this.head]!;
+      for (const signal of this.signals) {
+        if (signal.name === oldest.signal && signal.pin === oldest.pin) {
+          signal.initial = oldest.value;
+          signal.startNs = oldest.timestampNs;
+        }
+      }
+      this.head = (this.head + 1) % this.capacity;
+      this._dropped++;
+    } else {
+      this.count++;
+    }
+    this.buffer[index] = change;
+  }
+
+  /**
+   * Recorded changes, oldest first
+   */
+  changes(): RecordedChange[] {
+    const changes: RecordedChange[] = [];
+    for (let i = 0; i < this.count; i++) {
+      changes.push(this.buffer[(this.head + i) % this.capacity]!);
+    }
+    return changes;
+  }
+
+  /**
+   * Drop every recorded change. Sources keep being recorded, starting from
+   * their current level.
+   */
+  clear(): this {
+    this.buffer = new Array(this.capacity);
+    this.head = 0;
+    this.count = 0;
+    this._dropped = 0;
+    this.signals = [...this.sources.values()];
+    for (const [source, signal] of this.sources) {
+      signal.initial = levelOf(source);
+      signal.startNs = nowOf(source);
+    }
+    return this;
+  }
+
+  /**
+   * Write the capture as a Value Change Dump, with times relative to the
+   * start of the capture
+   */
+  toVCD(options: VCDOptions = {}): string {
+    const { timescale = "1ns", scope = "gpio", date = new Date() } = options;
+    const unitNs = TIMESCALE_NS[timescale];
+
+    const changes = byTimestamp(this.changes());
+    const key = (name: string, pin: number) => `${name}\u0000${pin}`;
+    const signals = new Map<
+      string,
+      { id: string; name: string; initial: boolean }
+    >();
+    let startNs: bigint | null = null;
+
+    for (const signal of this.signals) {
+      signals.set(key(signal.name, signal.pin), {
+        id: vcdIdentifier(signals.size),
+        name: signal.name,
+        initial: signal.initial,
+      });
+      if (startNs === null || signal.startNs < startNs) {
+        startNs = signal.startNs;
+      }
+    }
+    const first = changes[0]?.timestampNs;
+    if (first !== undefined && (startNs === null || first < startNs)) {
+      startNs = first;
+    }
+    startNs ??= 0n;
+
+    const lines = [
+      `$date ${date.toISOString()} $end`,
+      "$version hallonbullar $end",
+      `$timescale ${timescale} $end`,
+      `$scope module ${vcdName(scope)} $end`,
+    ];
+    for (const { id, name } of signals.values()) {
+      lines.push(`$var wire 1 ${id} ${vcdName(name)} $end`);
+    }
+    lines.push("$upscope $end", "$enddefinitions $end", "#0", "$dumpvars");
+    for (const { id, initial } of signals.values()) {
+      lines.push(`${initial ? 1 : 0}${id}`);
+    }
+    lines.push("$end");
+
+    let lastTime = 0n;
+    for (const change of changes) {
+      const time = (change.timestampNs - startNs) / unitNs;
+      if (time > lastTime) {
+        lines.push(`#${time}`);
+        lastTime = time;
+      }
+      const { id } = signals.get(key(change.signal, change.pin))!;
+      lines.push(`${change.value ? 1 : 0}${id}`);
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Feed the capture into a callback, oldest first, keeping the time
+   * between changes
+   * @param callback Receives each recorded change
+   * @returns Resolves once every change has been delivered
+   * @throws The abort reason if the signal is aborted first
+   */
+  replay(
+    callback: (change: RecordedChange) => void,
+    options: ReplayOptions = {}
+  ): Promise<void> {
+    const { speed = 1, scheduler = systemScheduler, signal } = options;
+    if (!(speed > 0)) {
+      throw new InvalidArgumentError("Replay speed must be greater than 0");
+    }
+    signal?.throwIfAborted();
+
+    const changes = byTimestamp(this.changes());
+
+    return new Promise((resolve, reject) => {
+      let timer: TimerHandle | null = null;
+      let index = 0;
+
+      const cleanup = () => {
+        if (timer !== null) {
+          scheduler.clearTimeout(timer);
+          timer = null;
+        }
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        reject(signal!.reason);
+      };
+
+      // Deliver every change that is due, then wait for the next one
+      const next = () => {
+        timer = null;
+        while (index < changes.length) {
+          const change = changes[index++]!;
+          try {
+            callback(change);
+          } catch (err) {
+            cleanup();
+            reject(err);
+            return;
+          }
+
+          const following = changes[index];
+          const gapMs = following
+            ? Number(following.timestampNs - change.timestampNs) / 1e6 / speed
+            : 0;
+          if (gapMs > 0) {
+            timer = scheduler.setTimeout(next, gapMs);
+            return;
+          }
+        }
+        cleanup();
+        resolve();
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      timer = scheduler.setTimeout(next, 0);
+    });
+  }
+
+  /** Stop recording every source */
+  close(): void {
+    this.stop();
+  }
+
+  /** Stop recording when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+}
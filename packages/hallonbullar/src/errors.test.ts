@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { constants } from "os";
+import {
+  errorFromErrno,
+  errorFromFsError,
+  HallonbullarError,
+  InvalidArgumentError,
+  LineBusyError,
+  NotFoundError,
+  PermissionError,
+} from "./errors";
+
+const { errno } = constants;
+
+describe("errorFromErrno", () => {
+  test("picks the error class of the errno", () => {
+    expect(errorFromErrno("busy", { errno: errno.EBUSY })).toBeInstanceOf(
+      LineBusyError
+    );
+    expect(errorFromErrno("denied", { errno: errno.EPERM })).toBeInstanceOf(
+      PermissionError
+    );
+    expect(errorFromErrno("gone", { errno: errno.ENODEV })).toBeInstanceOf(
+      NotFoundError
+    );
+    expect(errorFromErrno("bad", { errno: errno.EINVAL })).toBeInstanceOf(
+      InvalidArgumentError
+    );
+    expect(errorFromErrno("failed", { errno: errno.EIO }).constructor).toBe(
+      HallonbullarError
+    );
+  });
+
+  test("names the errno in the message and keeps the details", () => {
+    const error = errorFromErrno("Failed to request GPIO pin 17", {
+      errno: errno.EBUSY,
+      pin: 17,
+      chip: "/dev/gpiochip0",
+      consumer: "other-daemon",
+    });
+
+    expect(error).toMatchObject({
+      name: "LineBusyError",
+      message: "Failed to request GPIO pin 17: EBUSY",
+      errno: errno.EBUSY,
+      code: "EBUSY",
+      pin: 17,
+      chip: "/dev/gpiochip0",
+      consumer: "other-daemon",
+    });
+  });
+});
+
+describe("errorFromFsError", () => {
+  test("maps the code of a file system error", () => {
+    const cause = Object.assign(new Error("EACCES: permission denied"), {
+      code: "EACCES",
+    });
+
+    const error = errorFromFsError("Failed to export PWM channel 0", cause, {
+      channel: 0,
+    });
+
+    expect(error).toBeInstanceOf(PermissionError);
+    expect(error).toMatchObject({ code: "EACCES", channel: 0, cause });
+  });
+});
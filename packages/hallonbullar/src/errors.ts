@@ -0,0 +1,215 @@
+/**
+ * Error classes for GPIO and PWM failures
+ *
+ * Every error thrown by the library is a HallonbullarError, and failures
+ * reported by the kernel carry the errno so callers can tell a busy line
+ * from a missing one or a permission problem.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   chip.output(17);
+ * } catch (error) {
+ *   if (error instanceof LineBusyError) {
+ *     console.log(`Pin 17 is used by ${error.consumer}`);
+ *   }
+ * }
+ * ```
+ */
+
+import { dlopen, read } from "bun:ffi";
+import { constants } from "os";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Context attached to an error */
+export interface ErrorDetails {
+  /** errno reported by the kernel */
+  errno?: number;
+  /** GPIO pin (line offset) involved */
+  pin?: number;
+  /** GPIO pins of a group involved */
+  pins?: readonly number[];
+  /** PWM channel involved */
+  channel?: number;
+  /** Path of the GPIO or PWM chip */
+  chip?: string;
+  /** Current consumer of the line, if another request holds it */
+  consumer?: string | null;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/** Callback for errors raised outside of a direct call, such as in callbacks */
+export type ErrorCallback = (error: unknown) => void;
+
+// =============================================================================
+// Error Classes
+// =============================================================================
+
+/**
+ * Base class for all errors thrown by the library
+ */
+export class HallonbullarError extends Error {
+  /** errno reported by the kernel, if any */
+  readonly errno: number | undefined;
+  /** Symbolic errno name (e.g., "EBUSY"), if any */
+  readonly code: string | undefined;
+  /** GPIO pin (line offset) involved, if any */
+  readonly pin: number | undefined;
+  /** GPIO pins of a group involved, if any */
+  readonly pins: readonly number[] | undefined;
+  /** PWM channel involved, if any */
+  readonly channel: number | undefined;
+  /** Path of the GPIO or PWM chip, if known */
+  readonly chip: string | undefined;
+  /** Current consumer of the line, if known */
+  readonly consumer: string | null | undefined;
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.errno = details.errno;
+    this.code =
+      details.errno !== undefined ? errnoName(details.errno) : undefined;
+    this.pin = details.pin;
+    this.pins = details.pins;
+    this.channel = details.channel;
+    this.chip = details.chip;
+    this.consumer = details.consumer;
+  }
+}
+
+/** The line or channel is already in use (EBUSY) */
+export class LineBusyError extends HallonbullarError {}
+
+/** The current user is not allowed to access the device (EACCES, EPERM) */
+export class PermissionError extends HallonbullarError {}
+
+/** The chip, line or channel does not exist (ENOENT, ENODEV, ENXIO) */
+export class NotFoundError extends HallonbullarError {}
+
+/** An argument is out of range or a combination of options is invalid (EINVAL) */
+export class InvalidArgumentError extends HallonbullarError {}
+
+/** The resource has been closed */
+export class ClosedError extends HallonbullarError {}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** errno numbers by name, e.g. EBUSY -> 16 */
+const errnoNumbers: Record<string, number> = constants.errno;
+
+/** Get the symbolic name of an errno number */
+function errnoName(errno: number): string | undefined {
+  return Object.keys(errnoNumbers).find((name) => errnoNumbers[name] === errno);
+}
+
+/**
+ * Create the error class matching an errno
+ * @param message Human-readable description of what failed
+ * @param details Context, including the errno
+ */
+export function errorFromErrno(
+  message: string,
+  details: ErrorDetails
+): HallonbullarError {
+  const { errno } = details;
+  const full =
+    errno !== undefined && errno !== 0
+      ? `${message}: ${errnoName(errno) ?? `errno ${errno}`}`
+      : message;
+
+  switch (errno) {
+    case errnoNumbers.EBUSY:
+      return new LineBusyError(full, details);
+    case errnoNumbers.EACCES:
+    case errnoNumbers.EPERM:
+      return new PermissionError(full, details);
+    case errnoNumbers.ENOENT:
+    case errnoNumbers.ENODEV:
+    case errnoNumbers.ENXIO:
+      return new NotFoundError(full, details);
+    case errnoNumbers.EINVAL:
+      return new InvalidArgumentError(full, details);
+    default:
+      return new HallonbullarError(full, details);
+  }
+}
+
+/**
+ * Create the error class matching a Node.js file system error
+ * @param message Human-readable description of what failed
+ * @param error Error thrown by the fs module
+ * @param details Additional context
+ */
+export function errorFromFsError(
+  message: string,
+  error: unknown,
+  details: ErrorDetails = {}
+): HallonbullarError {
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  const errno = code !== undefined ? errnoNumbers[code] : undefined;
+  return errorFromErrno(message, { ...details, errno, cause: error });
+}
+
+let libc: ReturnType<typeof loadLibc> | null = null;
+
+function loadLibc() {
+  return dlopen("libc.so.6", {
+    __errno_location: {
+      args: [],
+      returns: "ptr",
+    },
+  });
+}
+
+/**
+ * Read errno on the current thread.
+ * Must be called right after the failing native call.
+ */
+export function lastErrno(): number {
+  if (!libc) {
+    libc = loadLibc();
+  }
+  const location = libc.symbols.__errno_location();
+  return location ? read.i32(location, 0) : 0;
+}
+
+/**
+ * Hand an error to the registered error callbacks. Without callbacks, and
+ * for errors thrown by the callbacks themselves, the error is rethrown from
+ * a microtask so it reaches the process's uncaught exception handling.
+ * @param callbacks Registered error callbacks
+ * @param error Error to report
+ */
+export function reportError(
+  callbacks: readonly ErrorCallback[],
+  error: unknown
+): void {
+  if (callbacks.length === 0) {
+    rethrow(error);
+    return;
+  }
+  for (const callback of [...callbacks]) {
+    try {
+      callback(error);
+    } catch (err) {
+      rethrow(err);
+    }
+  }
+}
+
+/**
+ * Throw an error outside the current call stack, where the caller cannot
+ * swallow it
+ */
+export function rethrow(error: unknown): void {
+  queueMicrotask(() => {
+    throw error;
+  });
+}
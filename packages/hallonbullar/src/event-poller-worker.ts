@@ -0,0 +1,88 @@
+/**
+ * Worker thread for the shared event poller
+ *
+ * Blocks in poll(2) on the file descriptors sent by the main thread and
+ * reports back which ones became readable. The wake fd is drained here so a
+ * change of the fd set only interrupts a single wait. A failing poll(2) is
+ * reported with its errno, and the main thread stops the worker.
+ */
+
+import { dlopen, ptr } from "bun:ffi";
+import { constants } from "os";
+import { lastErrno } from "./errors";
+import type { PollRequest, PollResult } from "./event-poller";
+
+declare var self: Worker;
+
+const POLLIN = 0x001;
+const POLLERR = 0x008;
+const POLLHUP = 0x010;
+const POLLNVAL = 0x020;
+
+/** Size of struct pollfd: int fd, short events, short revents */
+const POLLFD_SIZE = 8;
+
+const libc = dlopen("libc.so.6", {
+  poll: {
+    args: ["ptr", "u64", "i32"],
+    returns: "i32",
+  },
+  read: {
+    args: ["i32", "ptr", "u64"],
+    returns: "i64",
+  },
+});
+
+self.onmessage = (event: MessageEvent<PollRequest>) => {
+  const { fds, wakeFd, polling } = event.data;
+  const all = [wakeFd, ...fds];
+
+  const buffer = new ArrayBuffer(all.length * POLLFD_SIZE);
+  const view = new DataView(buffer);
+  all.forEach((fd, i) => {
+    view.setInt32(i * POLLFD_SIZE, fd, true);
+    view.setInt16(i * POLLFD_SIZE + 4, POLLIN, true);
+  });
+
+  // Block until the kernel has something for us
+  let result: number;
+  let errno: number;
+  do {
+    result = libc.symbols.poll(ptr(buffer), all.length, -1);
+    errno = result < 0 ? lastErrno() : 0;
+  } while (errno === constants.errno.EINTR);
+
+  // The main thread may close the polled fds from here on
+  Atomics.store(polling, 0, 0);
+  Atomics.notify(polling, 0);
+
+  if (result < 0) {
+    const message: PollResult = { fds: [], invalid: [], errno };
+    self.postMessage(message);
+    return;
+  }
+
+  const ready: number[] = [];
+  const invalid: number[] = [];
+  if (result > 0) {
+    all.forEach((fd, i) => {
+      const revents = view.getInt16(i * POLLFD_SIZE + 6, true);
+      if (revents & POLLNVAL) {
+        invalid.push(fd);
+        return;
+      }
+      if ((revents & (POLLIN | POLLERR | POLLHUP)) === 0) {
+        return;
+      }
+      if (i === 0) {
+        const counter = new BigUint64Array(1);
+        libc.symbols.read(wakeFd, ptr(counter.buffer), 8);
+      } else {
+        ready.push(fd);
+      }
+    });
+  }
+
+  const message: PollResult = { fds: ready, invalid };
+  self.postMessage(message);
+};
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { dlopen, ptr } from "bun:ffi";
+import { InvalidArgumentError } from "./errors";
+import { EventPoller } from "./event-poller";
+
+const EFD_NONBLOCK = 0o4000;
+const RLIMIT_NOFILE = 7;
+
+const libc = dlopen("libc.so.6", {
+  eventfd: { args: ["u32", "i32"], returns: "i32" },
+  read: { args: ["i32", "ptr", "u64"], returns: "i64" },
+  write: { args: ["i32", "ptr", "u64"], returns: "i64" },
+  close: { args: ["i32"], returns: "i32" },
+  getrlimit: { args: ["i32", "ptr"], returns: "i32" },
+  setrlimit: { args: ["i32", "ptr"], returns: "i32" },
+});
+
+let poller: EventPoller;
+let fds: number[];
+
+beforeEach(() => {
+  poller = new EventPoller();
+  fds = [];
+});
+
+afterEach(() => {
+  for (const fd of fds) {
+    poller.remove(fd);
+    libc.symbols.close(fd);
+  }
+});
+
+/** An eventfd that is readable after signal() until drain() */
+function eventfd() {
+  const fd = libc.symbols.eventfd(0, EFD_NONBLOCK);
+  fds.push(fd);
+  const counter = new BigUint64Array([1n]);
+  return {
+    fd,
+    signal: () => libc.symbols.write(fd, ptr(counter.buffer), 8),
+    drain: () => libc.symbols.read(fd, ptr(counter.buffer), 8),
+  };
+}
+
+/** Resolve once `callback` ran `count` times */
+function calls(count: number, callback: () => void = () => {}) {
+  let resolve: () => void;
+  const done = new Promise<void>((r) => (resolve = r));
+  let n = 0;
+  const counted = () => {
+    callback();
+    if (++n === count) {
+      resolve();
+    }
+  };
+  return { counted, done };
+}
+
+describe("EventPoller", () => {
+  test("calls back when a file descriptor becomes readable", async () => {
+    const events = eventfd();
+    const { counted, done } = calls(2, events.drain);
+    poller.add(events.fd, counted);
+
+    events.signal();
+    await Bun.sleep(10);
+    events.signal();
+
+    await done;
+  });
+
+  test("leaves poll(2) before remove() returns", async () => {
+    const kept = eventfd();
+    const removed = eventfd();
+    const { counted, done } = calls(1, kept.drain);
+    poller.add(kept.fd, counted);
+    poller.add(removed.fd, () => {});
+    await Bun.sleep(10);
+
+    poller.remove(removed.fd);
+    expect(poller["pollState"][0]).toBe(0);
+    libc.symbols.close(removed.fd);
+    fds.pop();
+
+    kept.signal();
+    await done;
+  });
+
+  test("stops and reports the error when poll(2) fails", async () => {
+    const events = eventfd();
+    const errors: Error[] = [];
+    poller.add(
+      events.fd,
+      () => {},
+      (error) => errors.push(error)
+    );
+    await Bun.sleep(10);
+
+    // poll(2) fails with EINVAL for more fds than RLIMIT_NOFILE allows
+    const limit = new BigUint64Array(2);
+    libc.symbols.getrlimit(RLIMIT_NOFILE, ptr(limit.buffer));
+    const lowered = new BigUint64Array([16n, limit[1]!]);
+    libc.symbols.setrlimit(RLIMIT_NOFILE, ptr(lowered.buffer));
+    try {
+      for (let fd = 10_000; fd < 10_020; fd++) {
+        poller.add(
+          fd,
+          () => {},
+          (error) => errors.push(error)
+        );
+      }
+      await Bun.sleep(50);
+    } finally {
+      libc.symbols.setrlimit(RLIMIT_NOFILE, ptr(limit.buffer));
+    }
+
+    expect(errors).toHaveLength(21);
+    expect(errors[0]).toBeInstanceOf(InvalidArgumentError);
+    expect(errors[0]!.message).toBe("Event poller failed to poll: EINVAL");
+    expect(poller["worker"]).toBeNull();
+  });
+});
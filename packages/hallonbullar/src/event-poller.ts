@@ -0,0 +1,265 @@
+/**
+ * Shared file descriptor poller for GPIO events
+ *
+ * A single worker thread blocks in poll(2) on the file descriptors of every
+ * line request with listeners, across all GPIO chips. The main thread is only
+ * woken when the kernel has events, so no timers run while the lines are idle.
+ */
+
+import { dlopen, ptr } from "bun:ffi";
+import { errorFromErrno, rethrow } from "./errors";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Callback run on the main thread when a file descriptor becomes readable */
+export type ReadableCallback = () => void;
+
+/** Callback run on the main thread when a file descriptor can no longer be watched */
+export type PollErrorCallback = (error: Error) => void;
+
+/** Callbacks registered for one file descriptor */
+interface Watch {
+  readable: ReadableCallback;
+  error?: PollErrorCallback;
+}
+
+/** Message from the main thread asking the worker to poll */
+export interface PollRequest {
+  /** File descriptors to wait on */
+  fds: number[];
+  /** eventfd used to interrupt the wait when the set of fds changes */
+  wakeFd: number;
+  /**
+   * Set to 1 by the main thread when it asks for a poll, cleared by the
+   * worker once poll(2) returned and the fds are no longer in use
+   */
+  polling: Int32Array;
+}
+
+/** Message from the worker once poll(2) returned */
+export interface PollResult {
+  /** File descriptors that became readable */
+  fds: number[];
+  /** File descriptors that were closed while being polled (POLLNVAL) */
+  invalid: number[];
+  /** errno of a failed poll(2), after which the worker stops polling */
+  errno?: number;
+}
+
+// =============================================================================
+// libc Bindings
+// =============================================================================
+
+const EFD_CLOEXEC = 0o2000000;
+const EFD_NONBLOCK = 0o4000;
+
+/** Longest wait for the worker to leave poll(2), in case it died in it */
+const REMOVE_TIMEOUT_MS = 1000;
+
+function loadLibc() {
+  return dlopen("libc.so.6", {
+    eventfd: {
+      args: ["u32", "i32"],
+      returns: "i32",
+    },
+    write: {
+      args: ["i32", "ptr", "u64"],
+      returns: "i64",
+    },
+  });
+}
+
+// =============================================================================
+// EventPoller Class
+// =============================================================================
+
+/**
+ * Waits for readability on many file descriptors without blocking the event loop
+ */
+export class EventPoller {
+  private libc = loadLibc();
+  /** Started on first use, and again after the previous one died */
+  private worker: Worker | null = null;
+  private wakeFd: number;
+  private watches: Map<number, Watch> = new Map();
+  private polling: boolean = false;
+  /** Shared with the worker, see PollRequest.polling */
+  private pollState = new Int32Array(new SharedArrayBuffer(4));
+
+  constructor() {
+    this.wakeFd = this.libc.symbols.eventfd(0, EFD_CLOEXEC | EFD_NONBLOCK);
+    if (this.wakeFd < 0) {
+      throw new Error("Failed to create eventfd for the event poller");
+    }
+  }
+
+  /**
+   * Call `callback` whenever `fd` becomes readable
+   * @param onError Called when `fd` stops being watched because it was
+   *   closed or the poller thread failed; without it the error is rethrown
+   */
+  add(
+    fd: number,
+    callback: ReadableCallback,
+    onError?: PollErrorCallback
+  ): void {
+    this.watches.set(fd, { readable: callback, error: onError });
+    this.update();
+  }
+
+  /**
+   * Stop watching `fd`. Returns once the worker has left poll(2), so `fd`
+   * can be closed without the worker waiting on it or on a new file that
+   * reuses its number.
+   */
+  remove(fd: number): void {
+    if (!this.watches.delete(fd)) {
+      return;
+    }
+    if (Atomics.load(this.pollState, 0) === 1) {
+      this.wake();
+      Atomics.wait(this.pollState, 0, 1, REMOVE_TIMEOUT_MS);
+    }
+    this.update();
+  }
+
+  private startWorker(): Worker {
+    if (this.worker) {
+      return this.worker;
+    }
+
+    const worker = new Worker(
+      new URL("./event-poller-worker.ts", import.meta.url).href
+    );
+    worker.onmessage = (event: MessageEvent<PollResult>) =>
+      this.handleResult(event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.handleWorkerError(
+        new Error(`Event poller worker failed: ${event.message}`)
+      );
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private update(): void {
+    // Keep the process alive only while someone is listening
+    if (this.watches.size > 0) {
+      this.startWorker().ref();
+    } else {
+      this.worker?.unref();
+    }
+
+    if (!this.polling) {
+      this.poll();
+    } else if (Atomics.load(this.pollState, 0) === 1) {
+      this.wake();
+    }
+    // Otherwise the result is on its way and the next poll uses the new set
+  }
+
+  private poll(): void {
+    if (this.polling || this.watches.size === 0) {
+      return;
+    }
+
+    const request: PollRequest = {
+      fds: [...this.watches.keys()],
+      wakeFd: this.wakeFd,
+      polling: this.pollState,
+    };
+    this.polling = true;
+    Atomics.store(this.pollState, 0, 1);
+    this.startWorker().postMessage(request);
+  }
+
+  /** Interrupt the current poll so the worker picks up the new fd set */
+  private wake(): void {
+    const value = new BigUint64Array([1n]);
+    this.libc.symbols.write(this.wakeFd, ptr(value.buffer), 8);
+  }
+
+  private handleResult(result: PollResult): void {
+    this.polling = false;
+
+    if (result.errno !== undefined) {
+      this.handleWorkerError(
+        errorFromErrno("Event poller failed to poll", { errno: result.errno })
+      );
+      return;
+    }
+
+    // Polling a closed fd would return at once forever, so drop it
+    for (const fd of result.invalid) {
+      const watch = this.watches.get(fd);
+      if (watch) {
+        this.watches.delete(fd);
+        this.fail(
+          watch,
+          new Error(`File descriptor ${fd} was closed while being polled`)
+        );
+      }
+    }
+
+    for (const fd of result.fds) {
+      const watch = this.watches.get(fd);
+      if (watch) {
+        try {
+          watch.readable();
+        } catch (err) {
+          rethrow(err);
+        }
+      }
+    }
+
+    this.update();
+  }
+
+  /**
+   * Drop every watch after the worker died and tell their owners. The next
+   * add() starts a new worker.
+   */
+  private handleWorkerError(error: Error): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.polling = false;
+    Atomics.store(this.pollState, 0, 0);
+
+    const watches = [...this.watches.values()];
+    this.watches.clear();
+    for (const watch of watches) {
+      this.fail(watch, error);
+    }
+  }
+
+  private fail(watch: Watch, error: Error): void {
+    if (!watch.error) {
+      rethrow(error);
+      return;
+    }
+    try {
+      watch.error(error);
+    } catch (err) {
+      rethrow(err);
+    }
+  }
+}
+
+// =============================================================================
+// Shared Instance
+// =============================================================================
+
+let sharedPoller: EventPoller | null = null;
+
+/**
+ * Get the poller shared by all GPIO chips, starting it on first use
+ */
+export function getEventPoller(): EventPoller {
+  if (!sharedPoller) {
+    sharedPoller = new EventPoller();
+  }
+  return sharedPoller;
+}
@@ -0,0 +1,327 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { GPIO, type EdgeEvent, type GPIOInput } from "./gpio";
+import { GPIOSimulator, type SimulatedChip } from "./gpio-simulator";
+import { LineBusyError } from "./errors";
+import { VirtualScheduler } from "./scheduler";
+
+const START_NS = 1_000_000_000n;
+
+let scheduler: VirtualScheduler;
+let sim: GPIOSimulator;
+let simChip: SimulatedChip;
+let gpio: GPIO;
+
+beforeEach(() => {
+  scheduler = new VirtualScheduler(START_NS);
+  sim = new GPIOSimulator({ scheduler });
+  simChip = sim.addChip({ label: "pinctrl-test", debounce: true });
+  gpio = new GPIO(simChip.path, { backend: sim, scheduler });
+});
+
+afterEach(() => {
+  gpio.close();
+});
+
+/** Collect the edges of an input */
+function collectEdges(input: GPIOInput): EdgeEvent[] {
+  const events: EdgeEvent[] = [];
+  input.onEdge((event) => events.push(event));
+  return events;
+}
+
+/** Let the simulator deliver queued events */
+function deliver(): Promise<void> {
+  return Bun.sleep(0);
+}
+
+describe("edges", () => {
+  test("carry the timestamps chosen by the test", async () => {
+    const input = gpio.input(17, { edge: "both", bias: "pull-down" });
+    const events = collectEdges(input);
+
+    simChip.drive(17, true, { timestampNs: 5_000n });
+    simChip.drive(17, false, { timestampNs: 7_500n });
+    await deliver();
+
+    expect(
+      events.map(({ type, timestampNs, sequence }) => ({
+        type,
+        timestampNs,
+        sequence,
+      }))
+    ).toEqual([
+      { type: "rising", timestampNs: 5_000n, sequence: 1n },
+      { type: "falling", timestampNs: 7_500n, sequence: 2n },
+    ]);
+  });
+
+  test("default to the scheduler time", async () => {
+    const input = gpio.input(17, { edge: "rising", bias: "pull-down" });
+    const events = collectEdges(input);
+
+    scheduler.advance(3);
+    simChip.drive(17, true);
+    await deliver();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]!.timestampNs).toBe(START_NS + 3_000_000n);
+  });
+
+  test("only report the requested edge", async () => {
+    const input = gpio.input(17, { edge: "falling", bias: "pull-down" });
+    const events = collectEdges(input);
+
+    simChip.pulse(17, true, 1_000n, { timestampNs: 10_000n });
+    await deliver();
+
+    expect(events.map((event) => [event.type, event.timestampNs])).toEqual([
+      ["falling", 11_000n],
+    ]);
+  });
+
+  test("are not reported for logical levels that do not change", async () => {
+    const input = gpio.input(17, { edge: "both", bias: "pull-down" });
+    const events = collectEdges(input);
+
+    simChip.drive(17, false);
+    simChip.drive(17, true);
+    simChip.drive(17, true);
+    await deliver();
+
+    expect(events.map((event) => event.type)).toEqual(["rising"]);
+  });
+});
+
+describe("bounce", () => {
+  test("reports every transition without debounce", async () => {
+    const input = gpio.input(4, { edge: "both", bias: "pull-up" });
+    const events = collectEdges(input);
+
+    simChip.bounce(4, false, {
+      bounces: 2,
+      intervalNs: 100n,
+      timestampNs: 1_000n,
+    });
+    await deliver();
+
+    expect(events.map((event) => [event.type, event.timestampNs])).toEqual([
+      ["falling", 1_000n],
+      ["rising", 1_100n],
+      ["falling", 1_200n],
+      ["rising", 1_300n],
+      ["falling", 1_400n],
+    ]);
+    expect(input.read()).toBe(false);
+  });
+
+  test("is filtered by hardware debounce once the line is stable", async () => {
+    const input = gpio.input(4, {
+      edge: "both",
+      bias: "pull-up",
+      debounceMs: 5,
+    });
+    expect(gpio.getLineInfo(4).debounced).toBe(true);
+    const events = collectEdges(input);
+
+    simChip.bounce(4, false, { bounces: 3 });
+    await deliver();
+    expect(events).toHaveLength(0);
+
+    scheduler.advance(5);
+    await deliver();
+    expect(events.map((event) => event.type)).toEqual(["falling"]);
+  });
+});
+
+describe("pull bias", () => {
+  test("decides the level of a floating line", () => {
+    const up = gpio.input(5, { bias: "pull-up" });
+    const down = gpio.input(6, { bias: "pull-down" });
+
+    expect(up.read()).toBe(true);
+    expect(down.read()).toBe(false);
+    expect(simChip.level(5)).toBe(true);
+    expect(simChip.level(6)).toBe(false);
+  });
+
+  test("is overridden by an external driver until it floats again", () => {
+    const input = gpio.input(5, { bias: "pull-up" });
+
+    simChip.drive(5, false);
+    expect(input.read()).toBe(false);
+
+    simChip.float(5);
+    expect(input.read()).toBe(true);
+  });
+
+  test("follows a reconfigure", () => {
+    const input = gpio.input(5, { bias: "pull-up" });
+    input.reconfigure({ bias: "pull-down" });
+
+    expect(input.read()).toBe(false);
+    expect(simChip.lineInfo(5).bias).toBe("pull-down");
+  });
+
+  test("applies to active-low inputs before inversion", () => {
+    const input = gpio.input(5, { bias: "pull-up", activeLow: true });
+
+    expect(simChip.level(5)).toBe(true);
+    expect(input.read()).toBe(false);
+  });
+});
+
+describe("output history", () => {
+  test("records values, levels and scheduler timestamps", () => {
+    const output = gpio.output(18);
+    scheduler.advance(1);
+    output.on();
+    scheduler.advance(2);
+    output.off();
+
+    expect(simChip.history(18)).toEqual([
+      { value: false, level: false, timestampNs: START_NS },
+      { value: true, level: true, timestampNs: START_NS + 1_000_000n },
+      { value: false, level: false, timestampNs: START_NS + 3_000_000n },
+    ]);
+  });
+
+  test("records the physical level of active-low outputs", () => {
+    const output = gpio.output(18, { activeLow: true });
+    output.on();
+
+    expect(
+      simChip.history(18).map(({ value, level }) => [value, level])
+    ).toEqual([
+      [false, true],
+      [true, false],
+    ]);
+    expect(simChip.level(18)).toBe(false);
+  });
+
+  test("records each line of a group write", () => {
+    const group = gpio.group([20, 21]);
+    group.writeAll(0b10);
+
+    expect(simChip.history(20).map((change) => change.value)).toEqual([
+      false,
+      false,
+    ]);
+    expect(simChip.history(21).map((change) => change.value)).toEqual([
+      false,
+      true,
+    ]);
+  });
+
+  test("can be cleared", () => {
+    const output = gpio.output(18);
+    simChip.clearHistory(18);
+    output.on();
+
+    expect(simChip.history(18).map((change) => change.value)).toEqual([true]);
+  });
+
+  test("lets an open-drain output float to the pull-up", () => {
+    const output = gpio.output(18, { drive: "open-drain", bias: "pull-up" });
+    expect(simChip.level(18)).toBe(false);
+
+    output.on();
+    expect(simChip.level(18)).toBe(true);
+
+    simChip.drive(18, false);
+    expect(simChip.level(18)).toBe(false);
+  });
+});
+
+describe("claim conflicts", () => {
+  test("reject requests for a claimed line with its consumer", () => {
+    simChip.claim(7, "other-daemon");
+
+    let error: unknown;
+    try {
+      gpio.output(7);
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(LineBusyError);
+    expect((error as LineBusyError).consumer).toBe("other-daemon");
+    expect(simChip.conflicts).toEqual([
+      {
+        offset: 7,
+        consumer: "bun-gpio",
+        owner: "other-daemon",
+        timestampNs: START_NS,
+      },
+    ]);
+  });
+
+  test("are recorded between requests of the application", () => {
+    gpio.input(8);
+    scheduler.advance(1);
+
+    expect(() => gpio.output(8)).toThrow(LineBusyError);
+    expect(simChip.conflicts.map((conflict) => conflict.timestampNs)).toEqual([
+      START_NS + 1_000_000n,
+    ]);
+
+    simChip.clearConflicts();
+    expect(simChip.conflicts).toHaveLength(0);
+  });
+
+  test("end when the line is unclaimed", () => {
+    simChip.claim(7, "other-daemon");
+    expect(() => simChip.claim(7, "third")).toThrow(LineBusyError);
+
+    simChip.unclaim(7);
+    expect(gpio.output(7).state).toBe(false);
+  });
+});
+
+describe("line info", () => {
+  test("describes a requested line", () => {
+    gpio.output(9, { activeLow: true, drive: "open-source" });
+
+    expect(simChip.lineInfo(9)).toMatchObject({
+      offset: 9,
+      used: true,
+      consumer: "bun-gpio",
+      direction: "output",
+      drive: "open-source",
+      activeLow: true,
+      edge: "none",
+    });
+    expect(gpio.getLineInfo(9)).toEqual(simChip.lineInfo(9));
+  });
+
+  test("is reset when the line is released", () => {
+    gpio.input(9, { edge: "both", bias: "pull-up" }).close();
+
+    expect(simChip.lineInfo(9)).toMatchObject({
+      used: false,
+      consumer: null,
+      direction: "input",
+      edge: "none",
+    });
+  });
+
+  test("reports claims by other consumers", () => {
+    simChip.claim(10, "kernel-driver");
+
+    expect(gpio.getLineInfo(10)).toMatchObject({
+      used: true,
+      consumer: "kernel-driver",
+    });
+  });
+
+  test("changes are delivered to line watchers", async () => {
+    const events: string[] = [];
+    gpio.watchLine(11, (event) => events.push(event.type));
+
+    const output = gpio.output(11);
+    output.reconfigure({ activeLow: true });
+    output.close();
+    await deliver();
+
+    expect(events).toEqual(["requested", "reconfigured", "released"]);
+  });
+});
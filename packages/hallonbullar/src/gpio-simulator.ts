@@ -0,0 +1,917 @@
+/**
+ * In-memory GPIO backend for testing without hardware
+ *
+ * The simulator behaves like the kernel GPIO character device: lines are
+ * requested exclusively, outputs drive the line, pull resistors decide the
+ * level of floating lines and edge detection reports logical edges with
+ * per-line and per-request sequence numbers. Tests drive the inputs and
+ * inspect what the application did to the outputs.
+ *
+ * @example
+ * ```typescript
+ * const sim = new GPIOSimulator();
+ * const chip = sim.addChip({ label: "pinctrl-rp1" });
+ * const gpio = new GPIO(chip.path, { backend: sim });
+ *
+ * const led = gpio.output(18);
+ * const button = gpio.input(17, { bias: "pull-up", edge: "falling" });
+ * button.onEdge(() => led.toggle());
+ *
+ * chip.drive(17, false); // press
+ * await Bun.sleep(0);
+ * console.log(chip.history(18)); // [{ value: false, ... }, { value: true, ... }]
+ * ```
+ */
+
+import type {
+  BiasSetting,
+  ChipInfo,
+  EdgeEvent,
+  EventClock,
+  LineInfo,
+  LineInfoEvent,
+  LineInfoEventType,
+} from "./gpio";
+import type {
+  ChipHandle,
+  EdgeEventsCallback,
+  GPIOBackend,
+  InfoEventCallback,
+  LineRequestConfig,
+  LineRequestHandle,
+  LineSettings,
+} from "./backend";
+import { errorFromErrno } from "./errors";
+import {
+  realtimeNs,
+  systemScheduler,
+  type Scheduler,
+  type TimerHandle,
+} from "./scheduler";
+
+import { constants } from "os";
+
+const { errno } = constants;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Options for the GPIO simulator */
+export interface GPIOSimulatorOptions {
+  /**
+   * Time source and timers for timestamps and hardware debounce
+   * (default: the system scheduler)
+   */
+  scheduler?: Scheduler;
+}
+
+/** Options for a simulated chip */
+export interface SimulatedChipOptions {
+  /** Device path (default: "/dev/gpiochipN", numbered in order of creation) */
+  path?: string;
+  /** Kernel name of the chip (default: "gpiochipN") */
+  name?: string;
+  /** Chip label (default: "gpio-sim") */
+  label?: string;
+  /** Number of lines (default: 32, or the length of `lineNames`) */
+  numLines?: number;
+  /** Line names by offset, null for unnamed lines */
+  lineNames?: (string | null)[];
+  /** Whether the chip supports hardware debounce (default: false) */
+  debounce?: boolean;
+}
+
+/** Options for changing a simulated input */
+export interface DriveOptions {
+  /** Timestamp of the change in nanoseconds (default: now, on the line's clock) */
+  timestampNs?: bigint;
+}
+
+/** Options for a simulated contact bounce */
+export interface BounceOptions extends DriveOptions {
+  /** Number of times the contact springs back before settling (default: 3) */
+  bounces?: number;
+  /** Time between transitions in nanoseconds (default: 100 µs) */
+  intervalNs?: bigint;
+}
+
+/** A value written to a simulated output */
+export interface OutputChange {
+  /** Logical value written by the application */
+  value: boolean;
+  /** Resulting physical level of the line */
+  level: boolean;
+  /** Time of the write in nanoseconds, read from the scheduler */
+  timestampNs: bigint;
+}
+
+/** A request that failed because the line was already in use */
+export interface LineConflict {
+  /** Line that was requested */
+  offset: number;
+  /** Consumer that tried to request the line */
+  consumer: string;
+  /** Consumer holding the line */
+  owner: string;
+  /** Time of the attempt in nanoseconds, read from the scheduler */
+  timestampNs: bigint;
+}
+
+/** State of a single simulated line */
+interface SimulatedLine {
+  offset: number;
+  name: string | null;
+  /** Request holding the line, if requested through the simulator */
+  request: SimulatedLineRequest | null;
+  /** Consumer holding the line, including lines claimed by tests */
+  consumer: string | null;
+  settings: LineSettings;
+  bias: BiasSetting;
+  /** Level forced by the test, null while the line is not driven externally */
+  external: boolean | null;
+  /** Physical level of the line */
+  level: boolean;
+  /** Level last reported through edge detection (debounced lines only) */
+  reportedLevel: boolean;
+  debounceTimer: TimerHandle | null;
+  history: OutputChange[];
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Default line settings of a line nobody has requested */
+function releasedSettings(): LineSettings {
+  return { direction: "input" };
+}
+
+// =============================================================================
+// Line Request
+// =============================================================================
+
+/**
+ * Lines requested from a simulated chip
+ */
+class SimulatedLineRequest implements LineRequestHandle {
+  private chip: SimulatedChip;
+  private offsets: number[];
+  private eventBufferSize: number;
+  private pending: EdgeEvent[] = [];
+  private lineSequences: Map<number, bigint> = new Map();
+  private globalSequence: bigint = 0n;
+  private eventsCallback: EdgeEventsCallback | null = null;
+  private readBufferSize: number = 16;
+  private flushScheduled: boolean = false;
+  private released: boolean = false;
+
+  constructor(chip: SimulatedChip, config: LineRequestConfig) {
+    this.chip = chip;
+    this.offsets = config.lines.map((line) => line.offset);
+    // Same default as the kernel
+    this.eventBufferSize = config.eventBufferSize || 16 * this.offsets.length;
+    for (const offset of this.offsets) {
+      this.lineSequences.set(offset, 0n);
+    }
+  }
+
+  private checkLine(offset: number): void {
+    if (this.released || !this.lineSequences.has(offset)) {
+      throw errorFromErrno("Line is not part of the request", {
+        errno: errno.EINVAL,
+        pin: offset,
+      });
+    }
+  }
+
+  getValue(offset: number): boolean {
+    this.checkLine(offset);
+    return this.chip.logicalValue(offset);
+  }
+
+  getValues(offsets: number[]): boolean[] {
+    return offsets.map((offset) => this.getValue(offset));
+  }
+
+  setValue(offset: number, value: boolean): void {
+    this.checkLine(offset);
+    this.chip.writeOutput(offset, value);
+  }
+
+  setValues(offsets: number[], values: boolean[]): void {
+    for (const offset of offsets) {
+      this.checkLine(offset);
+    }
+    offsets.forEach((offset, i) => this.chip.writeOutput(offset, values[i]!));
+  }
+
+  reconfigureLine(offset: number, settings: LineSettings): void {
+    this.checkLine(offset);
+    this.chip.configureLine(offset, settings, "reconfigured");
+  }
+
+  onEdgeEvents(
+    callback: EdgeEventsCallback | null,
+    readBufferSize: number = 16
+  ): void {
+    this.eventsCallback = this.released ? null : callback;
+    this.readBufferSize = readBufferSize;
+    this.scheduleFlush();
+  }
+
+  /**
+   * Queue an edge event, dropping the oldest event when the buffer is full
+   * @internal
+   */
+  pushEdge(
+    offset: number,
+    type: EdgeEvent["type"],
+    timestampNs: bigint,
+    clock: EventClock
+  ): void {
+    const sequence = this.lineSequences.get(offset)! + 1n;
+    this.lineSequences.set(offset, sequence);
+    this.globalSequence++;
+
+    this.pending.push({
+      type,
+      timestampNs,
+      pin: offset,
+      sequence,
+      globalSequence: this.globalSequence,
+      clock,
+    });
+    if (this.pending.length > this.eventBufferSize) {
+      this.pending.shift();
+    }
+    this.scheduleFlush();
+  }
+
+  /** Deliver queued events on the next microtask, like a readable fd */
+  private scheduleFlush(): void {
+    if (this.flushScheduled || !this.eventsCallback || !this.pending.length) {
+      return;
+    }
+    this.flushScheduled = true;
+    queueMicrotask(() => {
+      this.flushScheduled = false;
+      this.flushEdgeEvents();
+    });
+  }
+
+  flushEdgeEvents(): void {
+    while (this.eventsCallback && this.pending.length > 0) {
+      this.eventsCallback(this.pending.splice(0, this.readBufferSize));
+    }
+  }
+
+  release(): void {
+    if (!this.released) {
+      this.released = true;
+      this.eventsCallback = null;
+      this.pending = [];
+      this.chip.releaseLines(this.offsets);
+    }
+  }
+}
+
+// =============================================================================
+// Chip Handle
+// =============================================================================
+
+/**
+ * An open file handle on a simulated chip
+ */
+class SimulatedChipHandle implements ChipHandle {
+  private chip: SimulatedChip;
+  private watched: Set<number> = new Set();
+  private pending: LineInfoEvent[] = [];
+  private infoCallback: InfoEventCallback | null = null;
+  private flushScheduled: boolean = false;
+  private closed: boolean = false;
+
+  constructor(chip: SimulatedChip) {
+    this.chip = chip;
+  }
+
+  getInfo(): ChipInfo {
+    return this.chip.info();
+  }
+
+  getLineInfo(offset: number): LineInfo {
+    return this.chip.lineInfo(offset);
+  }
+
+  findLine(name: string): number | null {
+    return this.chip.findLine(name);
+  }
+
+  watchLineInfo(offset: number): void {
+    this.chip.lineInfo(offset);
+    this.watched.add(offset);
+  }
+
+  unwatchLineInfo(offset: number): void {
+    this.watched.delete(offset);
+  }
+
+  onInfoEvents(callback: InfoEventCallback | null): void {
+    this.infoCallback = callback;
+    this.scheduleFlush();
+  }
+
+  /**
+   * Queue an info event if the line is watched
+   * @internal
+   */
+  pushInfo(event: LineInfoEvent): void {
+    if (this.closed || !this.watched.has(event.pin)) {
+      return;
+    }
+    this.pending.push(event);
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushScheduled || !this.infoCallback || !this.pending.length) {
+      return;
+    }
+    this.flushScheduled = true;
+    queueMicrotask(() => {
+      this.flushScheduled = false;
+      while (this.infoCallback && this.pending.length > 0) {
+        this.infoCallback(this.pending.shift()!);
+      }
+    });
+  }
+
+  requestLines(config: LineRequestConfig): LineRequestHandle {
+    return this.chip.requestLines(config);
+  }
+
+  close(): void {
+    // Like closing the chip fd, requests made through it stay alive
+    this.closed = true;
+    this.infoCallback = null;
+    this.pending = [];
+    this.chip.removeHandle(this);
+  }
+}
+
+// =============================================================================
+// Simulated Chip
+// =============================================================================
+
+/**
+ * A simulated GPIO chip.
+ * The methods below stand in for the outside world: they drive inputs,
+ * hold lines on behalf of other processes and record what the application
+ * did to its outputs.
+ */
+export class SimulatedChip {
+  private _path: string;
+  private _name: string;
+  private _label: string;
+  private hardwareDebounce: boolean;
+  private scheduler: Scheduler;
+  private lines: SimulatedLine[];
+  private handles: Set<SimulatedChipHandle> = new Set();
+  private _conflicts: LineConflict[] = [];
+
+  /** @internal */
+  constructor(
+    index: number,
+    options: SimulatedChipOptions,
+    scheduler: Scheduler
+  ) {
+    const {
+      path = `/dev/gpiochip${index}`,
+      name = `gpiochip${index}`,
+      label = "gpio-sim",
+      lineNames = [],
+      numLines = Math.max(lineNames.length, 32),
+      debounce = false,
+    } = options;
+
+    this._path = path;
+    this._name = name;
+    this._label = label;
+    this.hardwareDebounce = debounce;
+    this.scheduler = scheduler;
+    this.lines = Array.from({ length: numLines }, (_, offset) => ({
+      offset,
+      name: lineNames[offset] ?? null,
+      request: null,
+      consumer: null,
+      settings: releasedSettings(),
+      bias: "disabled",
+      external: null,
+      level: false,
+      reportedLevel: false,
+      debounceTimer: null,
+      history: [],
+    }));
+  }
+
+  /** Device path of the chip */
+  get path(): string {
+    return this._path;
+  }
+
+  /** Number of lines on the chip */
+  get numLines(): number {
+    return this.lines.length;
+  }
+
+  /** Requests that failed because a line was busy, oldest first */
+  get conflicts(): readonly LineConflict[] {
+    return this._conflicts;
+  }
+
+  private line(offset: number): SimulatedLine {
+    const line = Number.isInteger(offset) ? this.lines[offset] : undefined;
+    if (!line) {
+      throw errorFromErrno(`Line ${offset} does not exist`, {
+        errno: errno.EINVAL,
+        pin: offset,
+        chip: this._path,
+      });
+    }
+    return line;
+  }
+
+  // ===========================================================================
+  // Outside World
+  // ===========================================================================
+
+  /**
+   * Drive a line to a level from outside, like a button or another device.
+   * Outputs of the application win over external drivers, except where an
+   * open-drain or open-source output leaves the line floating.
+   * @param offset Line to drive
+   * @param level Physical level (true = high)
+   */
+  drive(offset: number, level: boolean, options: DriveOptions = {}): this {
+    const line = this.line(offset);
+    line.external = level;
+    this.update(line, options.timestampNs);
+    return this;
+  }
+
+  /**
+   * Stop driving a line from outside, leaving it to the bias resistor
+   * @param offset Line to release
+   */
+  float(offset: number, options: DriveOptions = {}): this {
+    const line = this.line(offset);
+    line.external = null;
+    this.update(line, options.timestampNs);
+    return this;
+  }
+
+  /**
+   * Drive a line to a level the way a mechanical contact does: it reaches
+   * the level, springs back and forth a few times, then settles.
+   * @param offset Line to drive
+   * @param level Physical level the line settles at
+   */
+  bounce(offset: number, level: boolean, options: BounceOptions = {}): this {
+    const { bounces = 3, intervalNs = 100_000n } = options;
+    const line = this.line(offset);
+    const start = options.timestampNs ?? this.now(this.clockOf(line));
+
+    for (let i = 0; i <= bounces * 2; i++) {
+      this.drive(offset, i % 2 === 0 ? level : !level, {
+        timestampNs: start + BigInt(i) * intervalNs,
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Drive a line to a level for a while, then back to the opposite level
+   * @param offset Line to drive
+   * @param level Physical level during the pulse
+   * @param widthNs Length of the pulse in nanoseconds
+   */
+  pulse(
+    offset: number,
+    level: boolean,
+    widthNs: bigint,
+    options: DriveOptions = {}
+  ): this {
+    const line = this.line(offset);
+    const start = options.timestampNs ?? this.now(this.clockOf(line));
+    this.drive(offset, level, { timestampNs: start });
+    this.drive(offset, !level, { timestampNs: start + widthNs });
+    return this;
+  }
+
+  /**
+   * Physical level of a line
+   * @param offset Line to read
+   */
+  level(offset: number): boolean {
+    return this.line(offset).level;
+  }
+
+  /**
+   * Values written to an output line, oldest first
+   * @param offset Line to inspect
+   */
+  history(offset: number): readonly OutputChange[] {
+    return this.line(offset).history;
+  }
+
+  /**
+   * Forget recorded output values
+   * @param offset Line to clear (default: all lines)
+   */
+  clearHistory(offset?: number): this {
+    if (offset !== undefined) {
+      this.line(offset).history = [];
+    } else {
+      for (const line of this.lines) {
+        line.history = [];
+      }
+    }
+    return this;
+  }
+
+  /** Forget recorded conflicts */
+  clearConflicts(): this {
+    this._conflicts = [];
+    return this;
+  }
+
+  /**
+   * Hold a line on behalf of another process, so requests for it fail
+   * @param offset Line to hold
+   * @param consumer Consumer name reported in line info
+   */
+  claim(offset: number, consumer: string): this {
+    const line = this.line(offset);
+    if (line.consumer !== null) {
+      throw errorFromErrno(`Line ${offset} is already in use`, {
+        errno: errno.EBUSY,
+        pin: offset,
+        chip: this._path,
+        consumer: line.consumer,
+      });
+    }
+    line.consumer = consumer;
+    this.notify(line, "requested");
+    return this;
+  }
+
+  /**
+   * Release a line held with claim()
+   * @param offset Line to release
+   */
+  unclaim(offset: number): this {
+    const line = this.line(offset);
+    if (line.consumer !== null && line.request === null) {
+      line.consumer = null;
+      this.notify(line, "released");
+    }
+    return this;
+  }
+
+  // ===========================================================================
+  // Kernel Side
+  // ===========================================================================
+
+  /** @internal */
+  info(): ChipInfo {
+    return {
+      name: this._name,
+      label: this._label,
+      numLines: this.lines.length,
+    };
+  }
+
+  /**
+   * Snapshot of a line, as reported by line info
+   * @param offset Line to inspect
+   */
+  lineInfo(offset: number): LineInfo {
+    const line = this.line(offset);
+    const { settings } = line;
+    const debounced = this.isDebounced(line);
+
+    return {
+      offset,
+      name: line.name,
+      used: line.consumer !== null,
+      consumer: line.consumer,
+      direction: settings.direction,
+      drive: settings.drive ?? "push-pull",
+      bias: line.bias,
+      edge: settings.edge ?? "none",
+      activeLow: settings.activeLow ?? false,
+      debounced,
+      debouncePeriodUs: debounced ? settings.debouncePeriodUs! : 0,
+      eventClock: this.clockOf(line),
+    };
+  }
+
+  /** @internal */
+  findLine(name: string): number | null {
+    return this.lines.find((line) => line.name === name)?.offset ?? null;
+  }
+
+  /** @internal */
+  openHandle(): ChipHandle {
+    const handle = new SimulatedChipHandle(this);
+    this.handles.add(handle);
+    return handle;
+  }
+
+  /** @internal */
+  removeHandle(handle: SimulatedChipHandle): void {
+    this.handles.delete(handle);
+  }
+
+  /** @internal */
+  requestLines(config: LineRequestConfig): LineRequestHandle {
+    const lines = config.lines.map(({ offset }) => this.line(offset));
+
+    const busy = lines.find((line) => line.consumer !== null);
+    if (busy) {
+      this._conflicts.push({
+        offset: busy.offset,
+        consumer: config.consumer,
+        owner: busy.consumer!,
+        timestampNs: this.scheduler.nowNs(),
+      });
+      throw errorFromErrno("Line is busy", {
+        errno: errno.EBUSY,
+        pin: busy.offset,
+        chip: this._path,
+        consumer: busy.consumer,
+      });
+    }
+
+    const request = new SimulatedLineRequest(this, config);
+    for (const line of lines) {
+      line.request = request;
+      line.consumer = config.consumer;
+    }
+    for (const { offset, settings } of config.lines) {
+      this.configureLine(offset, settings, "requested");
+    }
+    return request;
+  }
+
+  /** @internal */
+  configureLine(
+    offset: number,
+    settings: LineSettings,
+    type: LineInfoEventType
+  ): void {
+    const line = this.line(offset);
+    line.settings = { ...settings };
+    if (settings.bias !== undefined) {
+      line.bias = settings.bias;
+    }
+    this.cancelDebounce(line);
+
+    // Edge detection starts from the level the new settings produce
+    line.level = this.resolveLevel(line);
+    line.reportedLevel = line.level;
+
+    if (settings.direction === "output") {
+      this.recordOutput(line);
+    }
+    this.notify(line, type);
+  }
+
+  /** @internal */
+  releaseLines(offsets: number[]): void {
+    for (const offset of offsets) {
+      const line = this.line(offset);
+      this.cancelDebounce(line);
+      line.request = null;
+      line.consumer = null;
+      // Released lines become inputs, keeping their bias
+      line.settings = releasedSettings();
+      this.update(line);
+      this.notify(line, "released");
+    }
+  }
+
+  /** @internal */
+  logicalValue(offset: number): boolean {
+    const line = this.line(offset);
+    if (line.settings.direction === "output") {
+      return line.settings.outputValue ?? false;
+    }
+    return line.level !== (line.settings.activeLow ?? false);
+  }
+
+  /** @internal */
+  writeOutput(offset: number, value: boolean): void {
+    const line = this.line(offset);
+    if (line.settings.direction !== "output") {
+      throw errorFromErrno("Line is not an output", {
+        errno: errno.EPERM,
+        pin: offset,
+        chip: this._path,
+      });
+    }
+    line.settings.outputValue = value;
+    this.update(line);
+    this.recordOutput(line);
+  }
+
+  // ===========================================================================
+  // Line State
+  // ===========================================================================
+
+  /** Current time in nanoseconds on an event clock */
+  private now(clock: EventClock): bigint {
+    return clock === "realtime" ? realtimeNs() : this.scheduler.nowNs();
+  }
+
+  private clockOf(line: SimulatedLine): EventClock {
+    return line.settings.clock ?? "monotonic";
+  }
+
+  private isDebounced(line: SimulatedLine): boolean {
+    return (
+      this.hardwareDebounce &&
+      line.settings.direction === "input" &&
+      (line.settings.debouncePeriodUs ?? 0) > 0
+    );
+  }
+
+  /**
+   * Work out the physical level of a line from whatever drives it:
+   * an output of the application, then an external driver, then the bias
+   * resistor. A line nobody drives keeps its last level.
+   */
+  private resolveLevel(line: SimulatedLine): boolean {
+    const { settings } = line;
+    if (line.request && settings.direction === "output") {
+      const driven = (settings.outputValue ?? false) !== !!settings.activeLow;
+      const drive = settings.drive ?? "push-pull";
+      if (
+        drive === "push-pull" ||
+        (drive === "open-drain" && !driven) ||
+        (drive === "open-source" && driven)
+      ) {
+        return driven;
+      }
+    }
+
+    if (line.external !== null) {
+      return line.external;
+    }
+    if (line.bias === "pull-up") {
+      return true;
+    }
+    if (line.bias === "pull-down") {
+      return false;
+    }
+    return line.level;
+  }
+
+  /** Recompute the level of a line and report any edge */
+  private update(line: SimulatedLine, timestampNs?: bigint): void {
+    const level = this.resolveLevel(line);
+    if (level === line.level) {
+      return;
+    }
+    line.level = level;
+
+    const { request, settings } = line;
+    if (!request || settings.direction !== "input") {
+      line.reportedLevel = level;
+      return;
+    }
+
+    const clock = this.clockOf(line);
+    const timestamp = timestampNs ?? this.now(clock);
+
+    if (!this.isDebounced(line)) {
+      line.reportedLevel = level;
+      this.reportEdge(line, timestamp);
+      return;
+    }
+
+    // Only report the edge once the line has been stable for the period
+    this.cancelDebounce(line);
+    line.debounceTimer = this.scheduler.setTimeout(() => {
+      line.debounceTimer = null;
+      if (line.level !== line.reportedLevel) {
+        line.reportedLevel = line.level;
+        this.reportEdge(line, timestamp);
+      }
+    }, settings.debouncePeriodUs! / 1000);
+  }
+
+  private reportEdge(line: SimulatedLine, timestampNs: bigint): void {
+    const { request, settings } = line;
+    const edge = settings.edge ?? "none";
+    const rising = line.level !== (settings.activeLow ?? false);
+
+    if (
+      request &&
+      (edge === "both" ||
+        (edge === "rising" && rising) ||
+        (edge === "falling" && !rising))
+    ) {
+      request.pushEdge(
+        line.offset,
+        rising ? "rising" : "falling",
+        timestampNs,
+        this.clockOf(line)
+      );
+    }
+  }
+
+  private cancelDebounce(line: SimulatedLine): void {
+    if (line.debounceTimer !== null) {
+      this.scheduler.clearTimeout(line.debounceTimer);
+      line.debounceTimer = null;
+    }
+  }
+
+  private recordOutput(line: SimulatedLine): void {
+    line.history.push({
+      value: line.settings.outputValue ?? false,
+      level: line.level,
+      timestampNs: this.scheduler.nowNs(),
+    });
+  }
+
+  private notify(line: SimulatedLine, type: LineInfoEventType): void {
+    const event: LineInfoEvent = {
+      type,
+      timestampNs: this.scheduler.nowNs(),
+      pin: line.offset,
+      info: this.lineInfo(line.offset),
+    };
+    for (const handle of this.handles) {
+      handle.pushInfo(event);
+    }
+  }
+}
+
+// =============================================================================
+// Simulator
+// =============================================================================
+
+/**
+ * GPIO backend that keeps every chip in memory.
+ * Pass it as the `backend` option of the GPIO classes to run application
+ * code without hardware.
+ */
+export class GPIOSimulator implements GPIOBackend {
+  private chips: SimulatedChip[] = [];
+  private scheduler: Scheduler;
+
+  constructor(options: GPIOSimulatorOptions = {}) {
+    this.scheduler = options.scheduler ?? systemScheduler;
+  }
+
+  /**
+   * Add a chip to the simulator
+   * @param options Path, label and lines of the chip
+   */
+  addChip(options: SimulatedChipOptions = {}): SimulatedChip {
+    const chip = new SimulatedChip(this.chips.length, options, this.scheduler);
+    if (this.chips.some((existing) => existing.path === chip.path)) {
+      throw errorFromErrno(`A chip already exists at ${chip.path}`, {
+        errno: errno.EEXIST,
+        chip: chip.path,
+      });
+    }
+    this.chips.push(chip);
+    return chip;
+  }
+
+  /**
+   * Get a simulated chip by path
+   * @param path Device path of the chip
+   */
+  chip(path: string): SimulatedChip {
+    const chip = this.chips.find((candidate) => candidate.path === path);
+    if (!chip) {
+      throw errorFromErrno(`No simulated chip at ${path}`, {
+        errno: errno.ENOENT,
+        chip: path,
+      });
+    }
+    return chip;
+  }
+
+  listChips(): string[] {
+    return this.chips.map((chip) => chip.path);
+  }
+
+  openChip(path: string): ChipHandle {
+    return this.chip(path).openHandle();
+  }
+}
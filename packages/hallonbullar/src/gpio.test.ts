@@ -0,0 +1,471 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import {
+  ClosedError,
+  HallonbullarError,
+  InvalidArgumentError,
+  LineBusyError,
+  NotFoundError,
+} from "./errors";
+import { edgeEventToDate, GPIO, type EdgeEvent, type GPIOInput } from "./gpio";
+import { GPIOSimulator, type SimulatedChip } from "./gpio-simulator";
+import { realtimeNs, VirtualScheduler } from "./scheduler";
+
+const START_NS = 1_000_000_000n;
+const MS = 1_000_000n;
+const PIN = 17;
+
+let scheduler: VirtualScheduler;
+let sim: GPIOSimulator;
+let simChip: SimulatedChip;
+let gpio: GPIO;
+
+beforeEach(() => {
+  scheduler = new VirtualScheduler(START_NS);
+  sim = new GPIOSimulator({ scheduler });
+  simChip = sim.addChip();
+  gpio = new GPIO(simChip.path, { backend: sim, scheduler });
+});
+
+afterEach(() => {
+  gpio.close();
+});
+
+/** Collect the edges of an input */
+function collectEdges(input: GPIOInput): EdgeEvent[] {
+  const events: EdgeEvent[] = [];
+  input.onEdge((event) => events.push(event));
+  return events;
+}
+
+describe("waitFor", () => {
+  test("stamps a level already reached on the clock of the edges", async () => {
+    const input = gpio.input(PIN, {
+      edge: "both",
+      clock: "realtime",
+      bias: "pull-up",
+    });
+
+    const before = realtimeNs();
+    const change = await input.waitFor(true);
+
+    expect(change).toMatchObject({ value: true, precise: false });
+    expect(change!.timestampNs).toBeGreaterThanOrEqual(before);
+    expect(change!.timestampNs).toBeLessThanOrEqual(realtimeNs());
+  });
+
+  test("measures the stable time from the edge", async () => {
+    const input = gpio.input(PIN, { edge: "both", bias: "pull-down" });
+    const result = input.waitFor(true, { stableMs: 10 });
+
+    simChip.drive(PIN, true, { timestampNs: START_NS + 2n * MS });
+    await Bun.sleep(0);
+    scheduler.advance(10);
+
+    expect(await result).toEqual({
+      value: true,
+      timestampNs: START_NS + 2n * MS,
+      precise: true,
+    });
+  });
+
+  test("stops watching the line when reading it fails", async () => {
+    const input = gpio.input(PIN, { bias: "pull-down" });
+    const read = input.read.bind(input);
+    let reads = 0;
+    spyOn(input, "read").mockImplementation(() => {
+      if (++reads > 1) {
+        throw new Error("read failed");
+      }
+      return read();
+    });
+
+    await expect(input.waitFor(true, { timeoutMs: 100 })).rejects.toThrow(
+      "read failed"
+    );
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+});
+
+describe("waitForEdge", () => {
+  test("resolves with the next edge", async () => {
+    const input = gpio.input(PIN, { edge: "rising", bias: "pull-down" });
+    const result = input.waitForEdge(100);
+
+    simChip.drive(PIN, true, { timestampNs: 5n });
+
+    expect(await result).toMatchObject({ type: "rising", timestampNs: 5n });
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+
+  test("unsubscribes when reading queued events fails", async () => {
+    const input = gpio.input(PIN, { edge: "both" });
+    spyOn(input["request"], "flushEdgeEvents").mockImplementation(() => {
+      throw new Error("read failed");
+    });
+
+    await expect(input.waitForEdge(100)).rejects.toThrow("read failed");
+    expect(input["subscribers"].size).toBe(0);
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+});
+
+describe("lineInfoEvents", () => {
+  test("yields the info events of the watched lines", async () => {
+    const events = gpio.lineInfoEvents([11, 12]);
+    const next = events.next();
+
+    gpio.output(12).close();
+
+    expect((await next).value).toMatchObject({ pin: 12, type: "requested" });
+    expect((await events.next()).value).toMatchObject({
+      pin: 12,
+      type: "released",
+    });
+    await events.return();
+    expect(gpio["lineWatchers"].size).toBe(0);
+  });
+
+  test("stops watching the lines already watched when a pin fails", async () => {
+    const events = gpio.lineInfoEvents([11, 12, 999]);
+
+    await expect(events.next()).rejects.toThrow();
+    expect(gpio["lineWatchers"].size).toBe(0);
+    expect(gpio["watchingInfo"]).toBe(false);
+  });
+});
+
+describe("GPIOGroup errors", () => {
+  test("name the pins and chip of the group", () => {
+    const group = gpio.group([20, 21, 22]);
+    group.close();
+
+    expect(() => group.readAll()).toThrow(ClosedError);
+    expect(() => group.readAll()).toThrow(
+      expect.objectContaining({ pins: [20, 21, 22], chip: simChip.path })
+    );
+  });
+
+  test("name the pins of a failed write", () => {
+    const group = gpio.group([20, 21, 22]);
+    spyOn(group["request"], "setValues").mockImplementation(() => {
+      throw new HallonbullarError("setValues failed", { errno: 16 });
+    });
+
+    expect(() => group.writeMask(0b101, 0b001)).toThrow(
+      expect.objectContaining({ pins: [20, 22], chip: simChip.path })
+    );
+  });
+
+  test("name the busy line of a group request", () => {
+    simChip.claim(21, "other-daemon");
+
+    expect(() => gpio.group([20, 21])).toThrow(LineBusyError);
+    expect(() => gpio.group([20, 21])).toThrow(
+      expect.objectContaining({
+        pin: 21,
+        pins: [20, 21],
+        consumer: "other-daemon",
+      })
+    );
+  });
+});
+
+describe("GPIOGroup", () => {
+  test("writes the lines as one bus-encoded number", () => {
+    const group = gpio.group([20, 21, 22]);
+
+    group.writeAll(0b101);
+    expect([20, 21, 22].map((pin) => simChip.level(pin))).toEqual([
+      true,
+      false,
+      true,
+    ]);
+
+    group.writeMask(0b011, 0b010);
+    expect(group.state).toEqual([false, true, true]);
+    expect(group.read()).toBe(0b110);
+  });
+
+  test("reads the lines selected by a mask", () => {
+    const group = gpio.group([20, 21, 22], {
+      direction: "input",
+      bias: "pull-down",
+    });
+    simChip.drive(21, true);
+    simChip.drive(22, true);
+
+    expect(group.readMask(0b011)).toBe(0b010);
+    expect(() => group.writeMask(0b001, 0b001)).toThrow(InvalidArgumentError);
+  });
+});
+
+describe("drive modes", () => {
+  test("reject a bias the drive mode cannot use", () => {
+    expect(() => gpio.output(5, { bias: "pull-up" })).toThrow(
+      InvalidArgumentError
+    );
+    expect(() =>
+      gpio.output(5, { drive: "open-drain", bias: "pull-down" })
+    ).toThrow(InvalidArgumentError);
+    expect(() =>
+      gpio.output(5, { drive: "open-source", bias: "pull-up" })
+    ).toThrow(InvalidArgumentError);
+
+    // Nothing was requested
+    expect(gpio.getLineInfo(5).used).toBe(false);
+  });
+
+  test("let an open-source output float to the pull-down", () => {
+    const output = gpio.output(5, {
+      drive: "open-source",
+      bias: "pull-down",
+      initialValue: true,
+    });
+    expect(simChip.level(5)).toBe(true);
+
+    output.write(false);
+    expect(simChip.level(5)).toBe(false);
+  });
+});
+
+describe("reconfiguration", () => {
+  test("switches the direction without releasing the line", async () => {
+    const events: string[] = [];
+    gpio.watchLine(7, (event) => events.push(event.type));
+
+    const output = gpio.output(7, { initialValue: true });
+    const input = output.toInput({ bias: "pull-down" });
+    await Bun.sleep(0);
+
+    expect(events).toEqual(["requested", "reconfigured"]);
+    expect(output.closed).toBe(true);
+    expect(input.read()).toBe(false);
+    expect(gpio.getLineInfo(7).direction).toBe("input");
+  });
+
+  test("keeps the state of an output", () => {
+    const output = gpio.output(7, { initialValue: true });
+
+    output.reconfigure({ activeLow: true });
+
+    expect(output.state).toBe(true);
+    expect(simChip.level(7)).toBe(false);
+  });
+
+  test("cannot change the kernel buffer size of a requested line", () => {
+    const input = gpio.input(7, { edge: "both" });
+
+    expect(() => input.reconfigure({ kernelBufferSize: 4 })).toThrow(
+      InvalidArgumentError
+    );
+  });
+});
+
+describe("chip discovery", () => {
+  test("lists the chips with their labels", () => {
+    const other = sim.addChip({ label: "pinctrl-rp1", numLines: 54 });
+
+    expect(GPIO.listChips({ backend: sim })).toEqual([
+      expect.objectContaining({ path: simChip.path, label: "gpio-sim" }),
+      expect.objectContaining({
+        path: other.path,
+        label: "pinctrl-rp1",
+        numLines: 54,
+      }),
+    ]);
+  });
+
+  test("opens the first chip matching a label or line name", () => {
+    const other = sim.addChip({
+      label: "pinctrl-rp1",
+      lineNames: ["ID_SDA", "ID_SCL", "GPIO2"],
+    });
+
+    const byLabel = GPIO.open({ label: "pinctrl-rp1" }, { backend: sim });
+    const byLine = GPIO.open({ lineName: "GPIO2" }, { backend: sim });
+    try {
+      expect(byLabel.path).toBe(other.path);
+      expect(byLine.path).toBe(other.path);
+    } finally {
+      byLabel.close();
+      byLine.close();
+    }
+    expect(() => GPIO.open({ label: "missing" }, { backend: sim })).toThrow(
+      NotFoundError
+    );
+  });
+});
+
+describe("line introspection", () => {
+  test("lists every line of the chip", () => {
+    gpio.output(3, { drive: "open-drain" });
+
+    const lines = gpio.lines();
+
+    expect(lines).toHaveLength(gpio.getChipInfo().numLines);
+    expect(lines[3]).toMatchObject({
+      used: true,
+      direction: "output",
+      drive: "open-drain",
+    });
+    expect(lines[4]!.used).toBe(false);
+  });
+});
+
+describe("edge timestamps", () => {
+  test("are on the wall clock with the realtime clock", async () => {
+    const input = gpio.input(PIN, {
+      edge: "both",
+      clock: "realtime",
+      bias: "pull-down",
+    });
+    const events = collectEdges(input);
+
+    const before = Date.now();
+    simChip.drive(PIN, true);
+    await Bun.sleep(0);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]!.clock).toBe("realtime");
+    expect(edgeEventToDate(events[0]!)!.getTime()).toBeGreaterThanOrEqual(
+      before
+    );
+  });
+
+  test("have no wall-clock time on the monotonic clock", async () => {
+    const input = gpio.input(PIN, { edge: "both", bias: "pull-down" });
+    const events = collectEdges(input);
+
+    simChip.drive(PIN, true);
+    await Bun.sleep(0);
+
+    expect(events[0]!.timestampNs).toBe(START_NS);
+    expect(edgeEventToDate(events[0]!)).toBeNull();
+  });
+});
+
+describe("missed events", () => {
+  test("are reported when the kernel buffer overflows", async () => {
+    const input = gpio.input(PIN, {
+      edge: "both",
+      bias: "pull-down",
+      kernelBufferSize: 2,
+    });
+    const events = collectEdges(input);
+    const overflows: unknown[] = [];
+    input.onOverflow((overflow) => overflows.push(overflow));
+
+    for (let i = 0; i < 5; i++) {
+      simChip.drive(PIN, i % 2 === 0);
+    }
+    await Bun.sleep(0);
+
+    expect(events).toHaveLength(2);
+    expect(overflows).toEqual([
+      { pin: PIN, kind: "line", expected: 1n, received: 4n, missed: 3n },
+    ]);
+    expect(input.missedEvents).toBe(3n);
+  });
+});
+
+describe("software debounce", () => {
+  test("is used when the chip ignores the debounce setting", async () => {
+    const input = gpio.input(PIN, {
+      edge: "both",
+      bias: "pull-down",
+      debounceMs: 5,
+    });
+    const events = collectEdges(input);
+
+    simChip.bounce(PIN, true);
+    await Bun.sleep(0);
+    scheduler.advance(4);
+    expect(events).toHaveLength(0);
+    scheduler.advance(1);
+
+    expect(input.debounce).toBe("software");
+    expect(events.map((event) => event.type)).toEqual(["rising"]);
+  });
+
+  test("drops edges within the stable time with a single edge", async () => {
+    const input = gpio.input(PIN, {
+      edge: "rising",
+      bias: "pull-down",
+      debounceMs: 5,
+    });
+    const events = collectEdges(input);
+
+    simChip.bounce(PIN, true);
+    await Bun.sleep(0);
+
+    expect(events.map((event) => event.timestampNs)).toEqual([START_NS]);
+  });
+});
+
+describe("cancellation", () => {
+  test("rejects waitForEdge with the abort reason", async () => {
+    const input = gpio.input(PIN, { edge: "both" });
+    const controller = new AbortController();
+
+    const result = input.waitForEdge({ signal: controller.signal });
+    controller.abort(new Error("stopped"));
+
+    await expect(result).rejects.toThrow("stopped");
+    expect(input["subscribers"].size).toBe(0);
+  });
+
+  test("ends edges() and removes edge callbacks", async () => {
+    const input = gpio.input(PIN, { edge: "both", bias: "pull-down" });
+    const controller = new AbortController();
+    const { signal } = controller;
+    const called: EdgeEvent[] = [];
+    input.onEdge((event) => called.push(event), { signal });
+
+    const seen: EdgeEvent[] = [];
+    const iterating = (async () => {
+      for await (const event of input.edges({ signal })) {
+        seen.push(event);
+        controller.abort();
+      }
+    })();
+
+    simChip.drive(PIN, true);
+    await Bun.sleep(0);
+    await iterating;
+    simChip.drive(PIN, false);
+    await Bun.sleep(0);
+
+    expect(seen).toHaveLength(1);
+    expect(called).toHaveLength(1);
+  });
+});
+
+describe("closing", () => {
+  test("is idempotent and available through Symbol.dispose", () => {
+    const input = gpio.input(PIN);
+
+    input[Symbol.dispose]();
+    input.close();
+
+    expect(input.closed).toBe(true);
+    expect(gpio.getLineInfo(PIN).used).toBe(false);
+    expect(() => input.read()).toThrow(
+      expect.objectContaining({ pin: PIN, chip: simChip.path })
+    );
+  });
+
+  test("the controller closes every line it handed out", () => {
+    const input = gpio.input(PIN);
+    const output = gpio.output(18);
+    const group = gpio.group([20, 21]);
+
+    gpio.close();
+
+    expect([input.closed, output.closed, group.closed]).toEqual([
+      true,
+      true,
+      true,
+    ]);
+    expect(() => gpio.input(PIN)).toThrow(ClosedError);
+  });
+});
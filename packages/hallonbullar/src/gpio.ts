@@ -1,7 +1,7 @@
 /**
  * Simple GPIO abstraction for Bun on Linux
  *
- * Provides easy-to-use GPIOOutput and GPIOInput classes built on libgpiod v2.
+ * Provides easy-to-use GPIOOutput, GPIOInput and GPIOGroup classes built on libgpiod v2.
  *
  * @example
  * ```typescript
@@ -19,20 +19,33 @@
  * ```
  */
 
+import type {
+  ChipHandle,
+  GPIOBackend,
+  LineRequestEntry,
+  LineRequestHandle,
+  LineSettings,
+} from "./backend";
+import { LibgpiodBackend } from "./libgpiod-backend";
+import { trackResource, untrackResource } from "./shutdown";
+import { EdgeDebouncer } from "./debounce";
 import {
-  loadLibgpiod,
-  cstr,
-  type Libgpiod,
-  GPIOD_LINE_DIRECTION,
-  GPIOD_LINE_EDGE,
-  GPIOD_LINE_BIAS,
-  GPIOD_LINE_VALUE,
-  GPIOD_EDGE_EVENT_TYPE,
-  type GpiodLineEdge,
-  type GpiodLineBias,
-} from "./libgpiod";
-
-import { ptr, type Pointer } from "bun:ffi";
+  realtimeNs,
+  systemScheduler,
+  type Scheduler,
+  type TimerHandle,
+} from "./scheduler";
+import {
+  ClosedError,
+  HallonbullarError,
+  InvalidArgumentError,
+  LineBusyError,
+  NotFoundError,
+  errorFromErrno,
+  reportError,
+  type ErrorCallback,
+  type ErrorDetails,
+} from "./errors";
 
 // =============================================================================
 // Types
@@ -44,6 +57,22 @@ export type BiasSetting = "disabled" | "pull-up" | "pull-down";
 /** Edge detection configuration */
 export type EdgeSetting = "none" | "rising" | "falling" | "both";
 
+/** Drive configuration for output pins */
+export type DriveSetting = "push-pull" | "open-drain" | "open-source";
+
+/** Clock used for edge event timestamps */
+export type EventClock = "monotonic" | "realtime" | "hte";
+
+/**
+ * How input debouncing is done: "auto" relies on the kernel and falls back
+ * to a userspace filter when the line is not reported as debounced,
+ * "software" always uses the userspace filter
+ */
+export type DebounceMode = "auto" | "software";
+
+/** Debouncing in effect on an input */
+export type DebounceState = "none" | "hardware" | "software";
+
 /** Options for GPIO input */
 export interface GPIOInputOptions {
   /** Internal bias resistor setting */
@@ -54,6 +83,17 @@ export interface GPIOInputOptions {
   activeLow?: boolean;
   /** Debounce period in milliseconds */
   debounceMs?: number;
+  /** How debouncing is done (default: "auto") */
+  debounceMode?: DebounceMode;
+  /** Clock used for edge event timestamps */
+  clock?: EventClock;
+  /**
+   * Number of events the kernel buffers for the line before dropping them
+   * (default: chosen by the kernel). Can only be set when the line is requested.
+   */
+  kernelBufferSize?: number;
+  /** Number of events read from the kernel at once (1-1024, default: 16) */
+  readBufferSize?: number;
 }
 
 /** Options for GPIO output */
@@ -62,6 +102,110 @@ export interface GPIOOutputOptions {
   initialValue?: boolean;
   /** Treat the signal as active-low */
   activeLow?: boolean;
+  /** How the line is driven */
+  drive?: DriveSetting;
+  /** Internal bias resistor setting (open-drain and open-source only) */
+  bias?: BiasSetting;
+  /** State to drive the output to on shutdown (see enableSafeShutdown()) */
+  safeValue?: boolean;
+}
+
+/** Options for opening a GPIO chip */
+export interface GPIOOptions {
+  /** Path to the libgpiod shared library (searched for by default) */
+  libraryPath?: string;
+  /** Backend providing the chips (default: libgpiod) */
+  backend?: GPIOBackend;
+  /** Time source and timers for timeouts, sampling and debouncing */
+  scheduler?: Scheduler;
+}
+
+/** Information about a GPIO chip */
+export interface ChipInfo {
+  /** Name of the chip as represented in the kernel (e.g., "gpiochip0") */
+  name: string | null;
+  /** Label of the chip (e.g., "pinctrl-rp1") */
+  label: string | null;
+  /** Number of lines exposed by the chip */
+  numLines: number;
+}
+
+/** A GPIO chip found by GPIO.listChips() */
+export interface ChipSummary extends ChipInfo {
+  /** Path to the chip device */
+  path: string;
+}
+
+/** Criteria for finding a chip with GPIO.open() */
+export interface ChipSelector {
+  /** Chip label that must match exactly (e.g., "pinctrl-rp1") */
+  label?: string;
+  /** Name of a line the chip must contain (e.g., "GPIO17") */
+  lineName?: string;
+}
+
+/** Information about a GPIO line */
+export interface LineInfo {
+  /** Offset of the line within the chip */
+  offset: number;
+  /** Name of the line, if set */
+  name: string | null;
+  /** Whether the line is in use */
+  used: boolean;
+  /** Name of the consumer using the line, if in use */
+  consumer: string | null;
+  /** Direction of the line */
+  direction: "input" | "output";
+  /** How the line is driven */
+  drive: DriveSetting;
+  /** Internal bias resistor setting, "unknown" if the kernel does not report it */
+  bias: BiasSetting | "unknown";
+  /** Edge detection setting */
+  edge: EdgeSetting;
+  /** Whether the signal is treated as active-low */
+  activeLow: boolean;
+  /** Whether the line is debounced */
+  debounced: boolean;
+  /** Debounce period in microseconds */
+  debouncePeriodUs: number;
+  /** Clock used for edge event timestamps */
+  eventClock: EventClock;
+}
+
+/** Direction of a line in a GPIO group */
+export type LineDirection = "input" | "output";
+
+/** Per-line overrides for a GPIO group */
+export interface GPIOGroupLineOptions {
+  /** Direction of this line */
+  direction?: LineDirection;
+  /** Treat the signal as active-low */
+  activeLow?: boolean;
+  /** Internal bias resistor setting */
+  bias?: BiasSetting;
+  /** How the line is driven (outputs only) */
+  drive?: DriveSetting;
+}
+
+/** Options for a GPIO group */
+export interface GPIOGroupOptions {
+  /** Default direction for all lines in the group */
+  direction?: LineDirection;
+  /** Initial state of the output lines, bus-encoded or one value per line */
+  initialValue?: number | boolean[];
+  /** Treat all signals as active-low */
+  activeLow?: boolean;
+  /** Internal bias resistor setting */
+  bias?: BiasSetting;
+  /** How the output lines are driven */
+  drive?: DriveSetting;
+  /**
+   * State to drive the output lines to on shutdown, bus-encoded or one value
+   * per line (see enableSafeShutdown())
+   */
+  safeValue?: number | boolean[];
+  /** Per-pin overrides, keyed by pin number */
+  lines?: Record<number, GPIOGroupLineOptions>;
 }
 
 /** Edge event from a GPIO input */
@@ -74,41 +218,307 @@ export interface EdgeEvent {
   pin: number;
   /** Sequence number for this pin */
   sequence: bigint;
+  /** Sequence number across all lines of the request */
+  globalSequence: bigint;
+  /** Clock the timestamp was read from */
+  clock: EventClock;
 }
 
 /** Callback for edge events */
 export type EdgeCallback = (event: EdgeEvent) => void;
 
+/** Events lost because a buffer overflowed */
+export interface EventOverflow {
+  /** GPIO pin the events were lost on */
+  pin: number;
+  /** Whether the gap was in the line or the request-wide sequence */
+  kind: "line" | "global";
+  /** Sequence number that was expected next */
+  expected: bigint;
+  /** Sequence number that arrived instead */
+  received: bigint;
+  /** Number of events that were lost */
+  missed: bigint;
+}
+
+/** Callback for event overflows */
+export type OverflowCallback = (overflow: EventOverflow) => void;
+
+/** Kind of change reported for a watched line */
+export type LineInfoEventType = "requested" | "released" | "reconfigured";
+
+/** Change of ownership or configuration of a watched line */
+export interface LineInfoEvent {
+  /** What happened to the line */
+  type: LineInfoEventType;
+  /** Timestamp in nanoseconds, read from the monotonic clock */
+  timestampNs: bigint;
+  /** GPIO pin that changed */
+  pin: number;
+  /** Snapshot of the line after the change */
+  info: LineInfo;
+}
+
+/** Callback for line info events */
+export type LineInfoCallback = (event: LineInfoEvent) => void;
+
+/** Options for edge listeners that can be cancelled */
+export interface EdgeListenerOptions {
+  /** Stops listening when aborted */
+  signal?: AbortSignal;
+}
+
+/** Options for GPIOInput.waitForEdge() */
+export interface WaitForEdgeOptions extends EdgeListenerOptions {
+  /** Timeout in milliseconds (default: wait forever) */
+  timeoutMs?: number;
+}
+
+/** A change of level on an input or output */
+export interface LevelChange {
+  /** Level the line changed to */
+  value: boolean;
+  /**
+   * When the change happened: the kernel edge timestamp when `precise`,
+   * otherwise the scheduler time the change was sampled or written, which
+   * is CLOCK_MONOTONIC like monotonic edge events
+   */
+  timestampNs: bigint;
+  /** Whether the timestamp comes from a kernel edge event */
+  precise: boolean;
+}
+
+/** Callback for level changes */
+export type LevelChangeCallback = (change: LevelChange) => void;
+
+/** Options for sampling-based level helpers */
+export interface LevelListenerOptions extends EdgeListenerOptions {
+  /** Sampling interval when edge detection is not "both" (default: 1) */
+  pollIntervalMs?: number;
+}
+
+/** Options for GPIOInput.waitFor() */
+export interface WaitForOptions extends LevelListenerOptions {
+  /** Timeout in milliseconds (default: wait forever) */
+  timeoutMs?: number;
+  /** How long the line must stay at the level, in milliseconds (default: 0) */
+  stableMs?: number;
+}
+
+/** Options for GPIOInput.waitForPulse() */
+export interface WaitForPulseOptions extends LevelListenerOptions {
+  /** Timeout in milliseconds (default: wait forever) */
+  timeoutMs?: number;
+  /** Ignore pulses shorter than this, in milliseconds (default: 0) */
+  minWidthMs?: number;
+}
+
+/** A pulse measured on an input */
+export interface Pulse {
+  /** Level of the pulse (true for a high pulse) */
+  value: boolean;
+  /** When the pulse started, in nanoseconds */
+  startNs: bigint;
+  /** When the pulse ended, in nanoseconds */
+  endNs: bigint;
+  /** Width of the pulse in nanoseconds */
+  widthNs: bigint;
+  /** Whether the timestamps come from kernel edge events */
+  precise: boolean;
+}
+
+/** Internal driver of an output, such as a SoftwarePWM */
+interface OutputDependent {
+  close(): void;
+}
+
+/** Internal consumer behind waitForEdge() and edges() */
+interface EdgeSubscriber {
+  /** Deliver an event */
+  event(event: EdgeEvent): void;
+  /** No more events will arrive */
+  end(): void;
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
 
-function biasToGpiod(bias: BiasSetting): GpiodLineBias {
-  switch (bias) {
-    case "disabled":
-      return GPIOD_LINE_BIAS.DISABLED;
-    case "pull-up":
-      return GPIOD_LINE_BIAS.PULL_UP;
-    case "pull-down":
-      return GPIOD_LINE_BIAS.PULL_DOWN;
-    default:
-      return GPIOD_LINE_BIAS.DISABLED;
+/** Accept a bare libgpiod library path in place of GPIO options */
+function gpioOptions(options: GPIOOptions | string): GPIOOptions {
+  return typeof options === "string" ? { libraryPath: options } : options;
+}
+
+/** Pick the backend for a set of GPIO options */
+function resolveBackend(options: GPIOOptions): GPIOBackend {
+  return options.backend ?? new LibgpiodBackend(options.libraryPath);
+}
+
+/**
+ * Describe a backend failure in terms of what the user asked for.
+ * Errors carrying an errno keep their class; anything else is passed on.
+ */
+function backendError(
+  message: string,
+  error: unknown,
+  details: ErrorDetails
+): unknown {
+  if (!(error instanceof HallonbullarError) || error.errno === undefined) {
+    return error;
+  }
+  return errorFromErrno(message, {
+    consumer: error.consumer,
+    ...details,
+    errno: error.errno,
+    cause: error,
+  });
+}
+
+/**
+ * Reject output options that cannot work electrically.
+ * A push-pull output always drives the line, so a bias only makes sense
+ * for open-drain and open-source lines, and then only towards the level
+ * the line does not drive itself.
+ */
+function validateOutputOptions(pin: number, options: GPIOOutputOptions): void {
+  const { drive = "push-pull", bias } = options;
+  if (bias === undefined || bias === "disabled") {
+    return;
+  }
+
+  if (drive === "push-pull") {
+    throw new InvalidArgumentError(
+      `Invalid options for GPIO pin ${pin}: bias "${bias}" requires drive "open-drain" or "open-source"`
+    );
+  }
+  if (drive === "open-drain" && bias === "pull-down") {
+    throw new InvalidArgumentError(
+      `Invalid options for GPIO pin ${pin}: an open-drain output needs "pull-up" bias, not "pull-down"`
+    );
+  }
+  if (drive === "open-source" && bias === "pull-up") {
+    throw new InvalidArgumentError(
+      `Invalid options for GPIO pin ${pin}: an open-source output needs "pull-down" bias, not "pull-up"`
+    );
+  }
+}
+
+/** Line settings for an output */
+function outputLineSettings(options: GPIOOutputOptions): LineSettings {
+  const {
+    initialValue = false,
+    activeLow = false,
+    drive = "push-pull",
+    bias,
+  } = options;
+
+  return {
+    direction: "output",
+    outputValue: initialValue,
+    activeLow,
+    drive,
+    bias,
+  };
+}
+
+/** Reject read buffer sizes libgpiod does not support */
+function validateReadBufferSize(size: number | undefined): void {
+  if (
+    size !== undefined &&
+    (!Number.isInteger(size) || size < 1 || size > 1024)
+  ) {
+    throw new InvalidArgumentError(
+      "Read buffer size must be an integer between 1 and 1024"
+    );
+  }
+}
+
+/**
+ * Line settings for an input.
+ * The hardware debounce period is left unset when software debouncing is
+ * forced.
+ */
+function inputLineSettings(options: GPIOInputOptions): LineSettings {
+  const {
+    bias = "disabled",
+    edge = "none",
+    activeLow = false,
+    debounceMs = 0,
+    debounceMode = "auto",
+    clock,
+  } = options;
+
+  return {
+    direction: "input",
+    bias,
+    edge,
+    activeLow,
+    debouncePeriodUs:
+      debounceMs > 0 && debounceMode !== "software"
+        ? Math.round(debounceMs * 1000)
+        : 0,
+    clock,
+  };
+}
+
+/**
+ * Apply new settings to an already requested line without releasing it
+ */
+function reconfigureLine(
+  request: LineRequestHandle,
+  pin: number,
+  chip: string,
+  settings: LineSettings
+): void {
+  try {
+    request.reconfigureLine(pin, settings);
+  } catch (err) {
+    throw backendError(`Failed to reconfigure GPIO pin ${pin}`, err, {
+      pin,
+      chip,
+    });
+  }
+}
+
+/** Encode per-line values as a number (values[0] is bit 0) */
+function encodeBits(values: boolean[]): number {
+  let result = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i]) {
+      result |= 1 << i;
+    }
   }
+  return result >>> 0;
 }
 
-function edgeToGpiod(edge: EdgeSetting): GpiodLineEdge {
-  switch (edge) {
-    case "none":
-      return GPIOD_LINE_EDGE.NONE;
-    case "rising":
-      return GPIOD_LINE_EDGE.RISING;
-    case "falling":
-      return GPIOD_LINE_EDGE.FALLING;
-    case "both":
-      return GPIOD_LINE_EDGE.BOTH;
-    default:
-      return GPIOD_LINE_EDGE.NONE;
+/** Decode a number into per-line values (bit 0 is values[0]) */
+function decodeBits(value: number, count: number): boolean[] {
+  const values: boolean[] = [];
+  for (let i = 0; i < count; i++) {
+    values.push(((value >>> i) & 1) === 1);
   }
+  return values;
+}
+
+// =============================================================================
+// Edge Event Timestamps
+// =============================================================================
+
+/**
+ * Get the wall-clock time of an edge event in nanoseconds since the Unix epoch
+ * @returns The epoch time, or null unless the input uses the "realtime" clock
+ */
+export function edgeEventToEpochNs(event: EdgeEvent): bigint | null {
+  return event.clock === "realtime" ? event.timestampNs : null;
+}
+
+/**
+ * Get the wall-clock time of an edge event as a Date (millisecond precision)
+ * @returns The date, or null unless the input uses the "realtime" clock
+ */
+export function edgeEventToDate(event: EdgeEvent): Date | null {
+  const epochNs = edgeEventToEpochNs(event);
+  return epochNs === null ? null : new Date(Number(epochNs / 1_000_000n));
 }
 
 // =============================================================================
@@ -119,23 +529,28 @@ function edgeToGpiod(edge: EdgeSetting): GpiodLineEdge {
  * Digital output pin for controlling LEDs, relays, etc.
  */
 export class GPIOOutput {
-  private lib: Libgpiod;
-  private request: Pointer;
+  private request: LineRequestHandle;
+  private owner: GPIO;
   private _pin: number;
   private _state: boolean;
+  private options: GPIOOutputOptions;
   private _closed: boolean = false;
+  private dependents: Set<OutputDependent> = new Set();
+  private changeCallbacks: LevelChangeCallback[] = [];
+  private errorCallbacks: ErrorCallback[] = [];
 
   /** @internal */
   constructor(
-    lib: Libgpiod,
-    request: Pointer,
+    request: LineRequestHandle,
     pin: number,
-    initialState: boolean
+    options: GPIOOutputOptions,
+    owner: GPIO
   ) {
-    this.lib = lib;
     this.request = request;
     this._pin = pin;
-    this._state = initialState;
+    this._state = options.initialValue ?? false;
+    this.options = { ...options, initialValue: undefined };
+    this.owner = owner;
   }
 
   /** The GPIO pin number */
@@ -153,33 +568,106 @@ export class GPIOOutput {
     return this._closed;
   }
 
+  /** @internal */
+  get scheduler(): Scheduler {
+    return this.owner.scheduler;
+  }
+
   private checkClosed(): void {
     if (this._closed) {
-      throw new Error(`GPIOOutput on pin ${this._pin} has been closed`);
+      throw new ClosedError(`GPIOOutput on pin ${this._pin} has been closed`, {
+        pin: this._pin,
+        chip: this.owner.path,
+      });
     }
   }
 
   /** Turn the output on (high) */
   on(): this {
     this.checkClosed();
-    this.lib.symbols.gpiod_line_request_set_value(
-      this.request,
-      this._pin,
-      GPIOD_LINE_VALUE.ACTIVE
-    );
-    this._state = true;
+    this.setValue(true);
     return this;
   }
 
   /** Turn the output off (low) */
   off(): this {
     this.checkClosed();
-    this.lib.symbols.gpiod_line_request_set_value(
-      this.request,
-      this._pin,
-      GPIOD_LINE_VALUE.INACTIVE
-    );
-    this._state = false;
+    this.setValue(false);
+    return this;
+  }
+
+  private setValue(value: boolean): void {
+    try {
+      this.request.setValue(this._pin, value);
+    } catch (err) {
+      throw backendError(`Failed to write GPIO pin ${this._pin}`, err, {
+        pin: this._pin,
+        chip: this.owner.path,
+      });
+    }
+    this.updateState(value);
+  }
+
+  /** Record a new state and report it if it changed */
+  private updateState(value: boolean): void {
+    if (value === this._state) {
+      return;
+    }
+    this._state = value;
+
+    const change: LevelChange = {
+      value,
+      timestampNs: this.scheduler.nowNs(),
+      precise: false,
+    };
+    for (const callback of [...this.changeCallbacks]) {
+      try {
+        callback(change);
+      } catch (err) {
+        reportError(this.errorCallbacks, err);
+      }
+    }
+  }
+
+  /**
+   * Register a callback for changes of the output state, made by this
+   * output or by anything driving it, such as a SoftwarePWM
+   */
+  onChange(callback: LevelChangeCallback): this {
+    this.checkClosed();
+    this.changeCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Remove a change callback
+   */
+  offChange(callback: LevelChangeCallback): this {
+    const index = this.changeCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.changeCallbacks.splice(index, 1);
+    }
+    return this;
+  }
+
+  /**
+   * Register a callback for exceptions thrown by change callbacks.
+   * Without callbacks, these errors are rethrown as uncaught exceptions.
+   */
+  onError(callback: ErrorCallback): this {
+    this.checkClosed();
+    this.errorCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Remove an error callback
+   */
+  offError(callback: ErrorCallback): this {
+    const index = this.errorCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.errorCallbacks.splice(index, 1);
+    }
     return this;
   }
 
@@ -205,13 +693,108 @@ export class GPIOOutput {
     return this;
   }
 
-  /** Release the GPIO line */
+  /**
+   * Change the settings of the output without releasing the line.
+   * Options that are not given keep their current value, and the output
+   * keeps its current state unless `initialValue` is given.
+   */
+  reconfigure(options: GPIOOutputOptions): this {
+    this.checkClosed();
+    const merged = { ...this.options, ...options };
+    const state = options.initialValue ?? this._state;
+    validateOutputOptions(this._pin, merged);
+
+    reconfigureLine(
+      this.request,
+      this._pin,
+      this.owner.path,
+      outputLineSettings({ ...merged, initialValue: state })
+    );
+
+    this.options = { ...merged, initialValue: undefined };
+    this.updateState(state);
+    return this;
+  }
+
+  /**
+   * Switch the line to an input without releasing it, so no other process
+   * can claim the line in between. This output is closed and the returned
+   * input owns the line from now on.
+   */
+  toInput(options: GPIOInputOptions = {}): GPIOInput {
+    this.checkClosed();
+    this.closeDependents();
+
+    reconfigureLine(
+      this.request,
+      this._pin,
+      this.owner.path,
+      inputLineSettings(options)
+    );
+
+    this._closed = true;
+    this.owner.forget(this);
+    const input = new GPIOInput(this.request, this._pin, options, this.owner);
+    this.owner.adopt(input);
+    return input;
+  }
+
+  /**
+   * Close `dependent` before this output is closed or changes direction
+   * @internal
+   */
+  addDependent(dependent: OutputDependent): void {
+    this.dependents.add(dependent);
+  }
+
+  /** @internal */
+  removeDependent(dependent: OutputDependent): void {
+    this.dependents.delete(dependent);
+  }
+
+  /**
+   * Stop anything driving the output and drive it to its safe value
+   * @internal
+   */
+  applySafeState(): void {
+    if (this._closed) {
+      return;
+    }
+    this.closeDependents();
+    if (this.options.safeValue !== undefined) {
+      this.write(this.options.safeValue);
+    }
+  }
+
+  private closeDependents(): void {
+    for (const dependent of [...this.dependents]) {
+      dependent.close();
+    }
+    this.dependents.clear();
+  }
+
+  /**
+   * Release the GPIO line, stopping anything that drives it first.
+   * Calling close() again has no effect.
+   */
   close(): void {
     if (!this._closed) {
-      this.lib.symbols.gpiod_line_request_release(this.request);
+      this.closeDependents();
+      this.request.release();
       this._closed = true;
+      this.owner.forget(this);
     }
   }
+
+  /** Close when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  /** Close when leaving an `await using` block */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.close();
+  }
 }
 
 // =============================================================================
@@ -222,26 +805,42 @@ export class GPIOOutput {
  * Digital input pin for reading buttons, sensors, etc.
  */
 export class GPIOInput {
-  private lib: Libgpiod;
-  private request: Pointer;
+  private request: LineRequestHandle;
+  private owner: GPIO;
   private _pin: number;
   private _edge: EdgeSetting;
+  private options: GPIOInputOptions;
   private _closed: boolean = false;
-  private eventBuffer: Pointer | null = null;
   private edgeCallbacks: EdgeCallback[] = [];
-  private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private subscribers: Set<EdgeSubscriber> = new Set();
+  private subscribed: boolean = false;
+  private overflowCallbacks: OverflowCallback[] = [];
+  private errorCallbacks: ErrorCallback[] = [];
+  private lastSequence: bigint = 0n;
+  private lastGlobalSequence: bigint = 0n;
+  private _missedEvents: bigint = 0n;
+  private debouncer: EdgeDebouncer | null = null;
+  private changeWatchers: Map<LevelChangeCallback, () => void> = new Map();
+  private samplerEnds: Set<() => void> = new Set();
+  private _debounce: DebounceState = "none";
+
+  /** Default number of events read from the kernel at once */
+  private static readonly DEFAULT_READ_BUFFER_SIZE = 16;
 
   /** @internal */
-  constructor(lib: Libgpiod, request: Pointer, pin: number, edge: EdgeSetting) {
-    this.lib = lib;
+  constructor(
+    request: LineRequestHandle,
+    pin: number,
+    options: GPIOInputOptions,
+    owner: GPIO
+  ) {
     this.request = request;
     this._pin = pin;
-    this._edge = edge;
+    this._edge = options.edge ?? "none";
+    this.options = { ...options };
+    this.owner = owner;
 
-    // Create event buffer if edge detection is enabled
-    if (edge !== "none") {
-      this.eventBuffer = lib.symbols.gpiod_edge_event_buffer_new(16);
-    }
+    this.configureDebounce();
   }
 
   /** The GPIO pin number */
@@ -259,23 +858,93 @@ export class GPIOInput {
     return this._edge;
   }
 
+  /** Clock used for edge event timestamps */
+  get clock(): EventClock {
+    return this.options.clock ?? "monotonic";
+  }
+
+  /** Debouncing in effect on this input */
+  get debounce(): DebounceState {
+    return this._debounce;
+  }
+
+  /** @internal */
+  get scheduler(): Scheduler {
+    return this.owner.scheduler;
+  }
+
+  /**
+   * Current time on the clock of the edge timestamps, to measure how long
+   * ago an edge happened. Null for the hardware timestamp engine, which
+   * cannot be read from userspace.
+   * @internal
+   */
+  clockNowNs(): bigint | null {
+    switch (this.clock) {
+      case "realtime":
+        return realtimeNs();
+      case "hte":
+        return null;
+      default:
+        return this.scheduler.nowNs();
+    }
+  }
+
+  /**
+   * Use the kernel debounce if the line reports it, otherwise filter edge
+   * events in userspace. Many chips silently ignore the debounce setting.
+   */
+  private configureDebounce(): void {
+    this.debouncer?.dispose();
+    this.debouncer = null;
+
+    const { debounceMs = 0, debounceMode = "auto" } = this.options;
+    if (debounceMs <= 0) {
+      this._debounce = "none";
+    } else if (
+      debounceMode === "auto" &&
+      this.owner.getLineInfo(this._pin).debounced
+    ) {
+      this._debounce = "hardware";
+    } else if (this._edge === "none") {
+      // The userspace filter only applies to edge events
+      this._debounce = "none";
+    } else {
+      this.debouncer = new EdgeDebouncer(
+        debounceMs,
+        this._edge,
+        (event) => this.dispatch(event),
+        this.scheduler
+      );
+      this._debounce = "software";
+    }
+  }
+
+  /** Total number of events lost to buffer overflows */
+  get missedEvents(): bigint {
+    return this._missedEvents;
+  }
+
   private checkClosed(): void {
     if (this._closed) {
-      throw new Error(`GPIOInput on pin ${this._pin} has been closed`);
+      throw new ClosedError(`GPIOInput on pin ${this._pin} has been closed`, {
+        pin: this._pin,
+        chip: this.owner.path,
+      });
     }
   }
 
   /** Read the current value of the input */
   read(): boolean {
     this.checkClosed();
-    const value = this.lib.symbols.gpiod_line_request_get_value(
-      this.request,
-      this._pin
-    );
-    if (value < 0) {
-      throw new Error(`Failed to read GPIO pin ${this._pin}`);
+    try {
+      return this.request.getValue(this._pin);
+    } catch (err) {
+      throw backendError(`Failed to read GPIO pin ${this._pin}`, err, {
+        pin: this._pin,
+        chip: this.owner.path,
+      });
     }
-    return value === GPIOD_LINE_VALUE.ACTIVE;
   }
 
   /** Alias for read() */
@@ -285,20 +954,24 @@ export class GPIOInput {
 
   /**
    * Register a callback for edge events.
-   * Starts polling automatically when the first callback is registered.
+   * The line is watched automatically while callbacks are registered.
+   * @param options.signal Removes the callback when aborted
    */
-  onEdge(callback: EdgeCallback): this {
+  onEdge(callback: EdgeCallback, options: EdgeListenerOptions = {}): this {
     this.checkClosed();
-    if (this._edge === "none") {
-      throw new Error("Edge detection is not enabled for this input");
+    this.checkEdgeEnabled();
+
+    const { signal } = options;
+    if (signal?.aborted) {
+      return this;
     }
 
     this.edgeCallbacks.push(callback);
+    this.updateSubscription();
 
-    // Start polling if not already started
-    if (this.pollInterval === null) {
-      this.startPolling();
-    }
+    signal?.addEventListener("abort", () => this.offEdge(callback), {
+      once: true,
+    });
 
     return this;
   }
@@ -312,147 +985,902 @@ export class GPIOInput {
       this.edgeCallbacks.splice(index, 1);
     }
 
-    // Stop polling if no callbacks remain
-    if (this.edgeCallbacks.length === 0 && this.pollInterval !== null) {
-      this.stopPolling();
-    }
+    // Stop watching if no listeners remain
+    this.updateSubscription();
 
     return this;
   }
 
   /**
-   * Wait for a single edge event
-   * @param timeoutMs Timeout in milliseconds (default: wait forever)
+   * Wait for a single edge event without blocking the event loop
+   * @param timeoutOrOptions Timeout in milliseconds (default: wait forever),
+   *   or options with a timeout and an AbortSignal
+   * @returns The event, or null on timeout or when the input is closed
+   * @throws The abort reason if the signal is aborted first
    */
-  async waitForEdge(timeoutMs?: number): Promise<EdgeEvent | null> {
-    this.checkClosed();
-    if (this._edge === "none") {
-      throw new Error("Edge detection is not enabled for this input");
-    }
-
-    const timeoutNs =
-      timeoutMs !== undefined ? BigInt(timeoutMs) * 1_000_000n : -1n;
-
-    const result = this.lib.symbols.gpiod_line_request_wait_edge_events(
-      this.request,
-      timeoutNs
-    );
+  async waitForEdge(
+    timeoutOrOptions?: number | WaitForEdgeOptions
+  ): Promise<EdgeEvent | null> {
+    const { timeoutMs, signal } =
+      typeof timeoutOrOptions === "number"
+        ? { timeoutMs: timeoutOrOptions, signal: undefined }
+        : timeoutOrOptions ?? {};
 
-    if (result < 0) {
-      throw new Error("Error waiting for edge events");
-    }
+    this.checkClosed();
+    this.checkEdgeEnabled();
+    signal?.throwIfAborted();
 
-    if (result === 0) {
-      return null; // Timeout
-    }
+    return new Promise((resolve, reject) => {
+      let timer: TimerHandle | null = null;
 
-    // Read the event
-    const count = this.lib.symbols.gpiod_line_request_read_edge_events(
-      this.request,
-      this.eventBuffer!,
-      1
-    );
+      const subscriber: EdgeSubscriber = {
+        event: (event) => finish(event),
+        end: () => finish(null),
+      };
 
-    if (count < 1) {
-      return null;
-    }
+      const cleanup = () => {
+        if (timer !== null) {
+          this.scheduler.clearTimeout(timer);
+        }
+        signal?.removeEventListener("abort", onAbort);
+        this.subscribers.delete(subscriber);
+        this.updateSubscription();
+      };
+
+      const finish = (event: EdgeEvent | null) => {
+        cleanup();
+        resolve(event);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        reject(signal!.reason);
+      };
+
+      this.subscribers.add(subscriber);
+      this.updateSubscription();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      // Events may already be queued in the kernel
+      try {
+        this.request.flushEdgeEvents();
+      } catch (err) {
+        cleanup();
+        reject(err);
+        return;
+      }
 
-    return this.readEventFromBuffer(0);
+      if (timeoutMs !== undefined && this.subscribers.has(subscriber)) {
+        timer = this.scheduler.setTimeout(() => finish(null), timeoutMs);
+      }
+    });
   }
 
   /**
-   * Async iterator for edge events
+   * Async iterator for edge events.
+   * Each iterator has its own queue, so events are never lost between
+   * iterations and several iterators can run side by side.
+   * @param options.signal Ends the iteration when aborted, dropping queued events
    */
-  async *edges(): AsyncGenerator<EdgeEvent, void, unknown> {
+  async *edges(
+    options: EdgeListenerOptions = {}
+  ): AsyncGenerator<EdgeEvent, void, unknown> {
     this.checkClosed();
-    if (this._edge === "none") {
-      throw new Error("Edge detection is not enabled for this input");
+    this.checkEdgeEnabled();
+
+    const { signal } = options;
+    if (signal?.aborted) {
+      return;
     }
 
-    while (!this._closed) {
-      const event = await this.waitForEdge(100);
-      if (event) {
-        yield event;
+    const queue: EdgeEvent[] = [];
+    let ended = false;
+    let notify: (() => void) | null = null;
+
+    const subscriber: EdgeSubscriber = {
+      event: (event) => {
+        queue.push(event);
+        notify?.();
+      },
+      end: () => {
+        ended = true;
+        notify?.();
+      },
+    };
+
+    const onAbort = () => {
+      queue.length = 0;
+      subscriber.end();
+    };
+
+    this.subscribers.add(subscriber);
+    this.updateSubscription();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      while (true) {
+        const event = queue.shift();
+        if (event) {
+          yield event;
+        } else if (ended) {
+          return;
+        } else {
+          await new Promise<void>((resolve) => (notify = resolve));
+          notify = null;
+        }
       }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      this.subscribers.delete(subscriber);
+      this.updateSubscription();
     }
   }
 
-  private readEventFromBuffer(index: number): EdgeEvent {
-    const event = this.lib.symbols.gpiod_edge_event_buffer_get_event(
-      this.eventBuffer!,
-      BigInt(index)
+  /**
+   * Register a callback for level changes.
+   * Uses edge events when edge detection is "both", and samples the line
+   * otherwise, so it also works with `edge: "none"`.
+   */
+  onChange(
+    callback: LevelChangeCallback,
+    options: LevelListenerOptions = {}
+  ): this {
+    this.checkClosed();
+    const { signal, pollIntervalMs = 1 } = options;
+    if (signal?.aborted) {
+      return this;
+    }
+
+    const unwatch = this.watchLevel(
+      (change) => {
+        try {
+          callback(change);
+        } catch (err) {
+          this.reportError(err);
+        }
+      },
+      () => this.offChange(callback),
+      pollIntervalMs
     );
+    this.changeWatchers.get(callback)?.();
+    this.changeWatchers.set(callback, unwatch);
 
-    const eventType = this.lib.symbols.gpiod_edge_event_get_event_type(event);
-    const timestampNs =
-      this.lib.symbols.gpiod_edge_event_get_timestamp_ns(event);
-    const lineOffset = this.lib.symbols.gpiod_edge_event_get_line_offset(event);
-    const lineSeqno = this.lib.symbols.gpiod_edge_event_get_line_seqno(event);
-
-    return {
-      type:
-        eventType === GPIOD_EDGE_EVENT_TYPE.RISING_EDGE ? "rising" : "falling",
-      timestampNs,
-      pin: lineOffset,
-      sequence: lineSeqno,
-    };
+    signal?.addEventListener("abort", () => this.offChange(callback), {
+      once: true,
+    });
+
+    return this;
+  }
+
+  /**
+   * Remove a change callback
+   */
+  offChange(callback: LevelChangeCallback): this {
+    const unwatch = this.changeWatchers.get(callback);
+    if (unwatch) {
+      this.changeWatchers.delete(callback);
+      unwatch();
+    }
+    return this;
   }
 
-  private startPolling(): void {
-    this.pollInterval = setInterval(() => {
-      if (this._closed || this.edgeCallbacks.length === 0) {
-        this.stopPolling();
+  /**
+   * Wait for the line to reach a level, optionally staying there for a while
+   * @param value Level to wait for
+   * @returns When the level was reached, or null on timeout or when the input is closed
+   * @throws The abort reason if the signal is aborted first
+   */
+  async waitFor(
+    value: boolean,
+    options: WaitForOptions = {}
+  ): Promise<LevelChange | null> {
+    const { timeoutMs, stableMs = 0, signal, pollIntervalMs = 1 } = options;
+    this.checkClosed();
+    signal?.throwIfAborted();
+
+    return new Promise((resolve, reject) => {
+      let timeout: TimerHandle | null = null;
+      let stable: TimerHandle | null = null;
+      let unwatch: (() => void) | null = null;
+      let done = false;
+
+      const cleanup = () => {
+        done = true;
+        if (timeout !== null) this.scheduler.clearTimeout(timeout);
+        if (stable !== null) this.scheduler.clearTimeout(stable);
+        signal?.removeEventListener("abort", onAbort);
+        unwatch?.();
+      };
+
+      const finish = (result: LevelChange | null) => {
+        cleanup();
+        resolve(result);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        reject(signal!.reason);
+      };
+
+      // Start (or cancel) the stable period whenever the level changes
+      const candidate = (change: LevelChange) => {
+        if (stable !== null) {
+          this.scheduler.clearTimeout(stable);
+          stable = null;
+        }
+        if (change.value !== value) {
+          return;
+        }
+        if (stableMs <= 0) {
+          finish(change);
+        } else {
+          stable = this.scheduler.setTimeout(() => finish(change), stableMs);
+        }
+      };
+
+      unwatch = this.watchLevel(candidate, () => finish(null), pollIntervalMs);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      try {
+        if (this.read() === value) {
+          // On the clock of the edges that may follow it
+          const clockNs = this._edge === "both" ? this.clockNowNs() : null;
+          candidate({
+            value,
+            timestampNs: clockNs ?? this.scheduler.nowNs(),
+            precise: false,
+          });
+        }
+      } catch (err) {
+        cleanup();
+        reject(err);
         return;
       }
 
-      // Check for events with no wait
-      const result = this.lib.symbols.gpiod_line_request_wait_edge_events(
-        this.request,
-        0n // Don't block
+      if (!done && timeoutMs !== undefined) {
+        timeout = this.scheduler.setTimeout(() => finish(null), timeoutMs);
+      }
+    });
+  }
+
+  /**
+   * Wait for a complete pulse: the line going to a level and back.
+   * A pulse already in progress is ignored, since its start is unknown.
+   * @param value Level of the pulse (default: true, a high pulse)
+   * @returns The pulse, or null on timeout or when the input is closed
+   * @throws The abort reason if the signal is aborted first
+   */
+  async waitForPulse(
+    value: boolean = true,
+    options: WaitForPulseOptions = {}
+  ): Promise<Pulse | null> {
+    const { timeoutMs, minWidthMs = 0, signal, pollIntervalMs = 1 } = options;
+    this.checkClosed();
+    signal?.throwIfAborted();
+
+    const minWidthNs = BigInt(Math.round(minWidthMs * 1_000_000));
+
+    return new Promise((resolve, reject) => {
+      let timeout: TimerHandle | null = null;
+      let start: LevelChange | null = null;
+
+      const cleanup = () => {
+        if (timeout !== null) this.scheduler.clearTimeout(timeout);
+        signal?.removeEventListener("abort", onAbort);
+        unwatch();
+      };
+
+      const finish = (result: Pulse | null) => {
+        cleanup();
+        resolve(result);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        reject(signal!.reason);
+      };
+
+      const unwatch = this.watchLevel(
+        (change) => {
+          if (change.value === value) {
+            start = change;
+            return;
+          }
+          if (!start) {
+            return;
+          }
+
+          const widthNs = change.timestampNs - start.timestampNs;
+          if (widthNs < minWidthNs) {
+            start = null;
+            return;
+          }
+          finish({
+            value,
+            startNs: start.timestampNs,
+            endNs: change.timestampNs,
+            widthNs,
+            precise: start.precise && change.precise,
+          });
+        },
+        () => finish(null),
+        pollIntervalMs
       );
+      signal?.addEventListener("abort", onAbort, { once: true });
 
-      if (result > 0) {
-        // Read all available events
-        const count = this.lib.symbols.gpiod_line_request_read_edge_events(
-          this.request,
-          this.eventBuffer!,
-          16
-        );
+      if (timeoutMs !== undefined) {
+        timeout = this.scheduler.setTimeout(() => finish(null), timeoutMs);
+      }
+    });
+  }
 
-        for (let i = 0; i < count; i++) {
-          const event = this.readEventFromBuffer(i);
-          for (const callback of this.edgeCallbacks) {
-            try {
-              callback(event);
-            } catch (err) {
-              console.error("Error in edge callback:", err);
-            }
+  /**
+   * Report level changes from edge events when edge detection is "both",
+   * otherwise by sampling the line.
+   * @param onLevel Called for every change of level
+   * @param onEnd Called when the input is closed or edge detection is disabled
+   * @returns Function that stops watching
+   */
+  private watchLevel(
+    onLevel: (change: LevelChange) => void,
+    onEnd: () => void,
+    pollIntervalMs: number
+  ): () => void {
+    let last = this.read();
+
+    if (this._edge === "both") {
+      const subscriber: EdgeSubscriber = {
+        event: (event) => {
+          const value = event.type === "rising";
+          if (value !== last) {
+            last = value;
+            onLevel({ value, timestampNs: event.timestampNs, precise: true });
           }
+        },
+        end: onEnd,
+      };
+      this.subscribers.add(subscriber);
+      this.updateSubscription();
+      return () => {
+        this.subscribers.delete(subscriber);
+        this.updateSubscription();
+      };
+    }
+
+    const timer = this.scheduler.setInterval(() => {
+      if (this._closed) {
+        return;
+      }
+      try {
+        const value = this.read();
+        if (value !== last) {
+          last = value;
+          onLevel({
+            value,
+            timestampNs: this.scheduler.nowNs(),
+            precise: false,
+          });
         }
+      } catch (err) {
+        this.reportError(err);
+      }
+    }, pollIntervalMs);
+    this.samplerEnds.add(onEnd);
+
+    return () => {
+      this.scheduler.clearInterval(timer);
+      this.samplerEnds.delete(onEnd);
+    };
+  }
+
+  private checkEdgeEnabled(): void {
+    if (this._edge === "none") {
+      throw new InvalidArgumentError(
+        "Edge detection is not enabled for this input",
+        { pin: this._pin, chip: this.owner.path }
+      );
+    }
+  }
+
+  /**
+   * Receive edge events from the backend while anyone is listening
+   */
+  private updateSubscription(): void {
+    const wanted =
+      !this._closed &&
+      this._edge !== "none" &&
+      (this.edgeCallbacks.length > 0 || this.subscribers.size > 0);
+
+    if (wanted && !this.subscribed) {
+      try {
+        this.request.onEdgeEvents(
+          (events) => this.handleEvents(events),
+          this.options.readBufferSize ?? GPIOInput.DEFAULT_READ_BUFFER_SIZE,
+          (err) => this.handleEventsError(err)
+        );
+      } catch (err) {
+        throw backendError(
+          `Failed to watch edge events on GPIO pin ${this._pin}`,
+          err,
+          { pin: this._pin, chip: this.owner.path }
+        );
       }
-    }, 1); // Poll every 1ms
+      this.subscribed = true;
+    } else if (!wanted && this.subscribed) {
+      this.request.onEdgeEvents(null);
+      this.subscribed = false;
+    }
   }
 
-  private stopPolling(): void {
-    if (this.pollInterval !== null) {
-      clearInterval(this.pollInterval);
-      this.pollInterval = null;
+  /**
+   * Edge events stopped arriving: report it and end the waiting consumers,
+   * so they do not wait forever. Edge callbacks subscribe again right away.
+   */
+  private handleEventsError(error: unknown): void {
+    this.subscribed = false;
+    this.reportError(error);
+    this.endSubscribers();
+    this.updateSubscription();
+  }
+
+  /**
+   * Hand events read from the kernel to all listeners
+   */
+  private handleEvents(events: EdgeEvent[]): void {
+    for (const event of events) {
+      if (this._closed) {
+        return;
+      }
+      this.checkSequence(event);
+      if (this.debouncer) {
+        this.debouncer.push(event);
+      } else {
+        this.dispatch(event);
+      }
     }
   }
 
+  /** Hand an event to all listeners */
+  private dispatch(event: EdgeEvent): void {
+    for (const callback of [...this.edgeCallbacks]) {
+      try {
+        callback(event);
+      } catch (err) {
+        this.reportError(err);
+      }
+    }
+    for (const subscriber of [...this.subscribers]) {
+      subscriber.event(event);
+    }
+  }
+
+  /**
+   * Report events lost between the previous event and this one.
+   * Sequence numbers start at 1 and increase by one per event, so any jump
+   * means the kernel dropped events.
+   */
+  private checkSequence(event: EdgeEvent): void {
+    let overflow: EventOverflow | null = null;
+
+    if (event.sequence > this.lastSequence + 1n) {
+      overflow = {
+        pin: this._pin,
+        kind: "line",
+        expected: this.lastSequence + 1n,
+        received: event.sequence,
+        missed: event.sequence - this.lastSequence - 1n,
+      };
+    } else if (event.globalSequence > this.lastGlobalSequence + 1n) {
+      overflow = {
+        pin: this._pin,
+        kind: "global",
+        expected: this.lastGlobalSequence + 1n,
+        received: event.globalSequence,
+        missed: event.globalSequence - this.lastGlobalSequence - 1n,
+      };
+    }
+
+    this.lastSequence = event.sequence;
+    this.lastGlobalSequence = event.globalSequence;
+
+    if (!overflow) {
+      return;
+    }
+
+    this._missedEvents += overflow.missed;
+    for (const callback of [...this.overflowCallbacks]) {
+      try {
+        callback(overflow);
+      } catch (err) {
+        this.reportError(err);
+      }
+    }
+  }
+
+  /**
+   * Register a callback for lost events.
+   * Lost events are also counted in missedEvents, with or without callbacks.
+   */
+  onOverflow(callback: OverflowCallback): this {
+    this.checkClosed();
+    this.overflowCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Remove an overflow callback
+   */
+  offOverflow(callback: OverflowCallback): this {
+    const index = this.overflowCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.overflowCallbacks.splice(index, 1);
+    }
+    return this;
+  }
+
+  /**
+   * Register a callback for exceptions thrown by edge, change and overflow
+   * callbacks, for read failures while sampling the line, and for failures
+   * of the event poller thread. Without callbacks, these errors are rethrown as uncaught exceptions.
+   */
+  onError(callback: ErrorCallback): this {
+    this.checkClosed();
+    this.errorCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Remove an error callback
+   */
+  offError(callback: ErrorCallback): this {
+    const index = this.errorCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.errorCallbacks.splice(index, 1);
+    }
+    return this;
+  }
+
+  private reportError(error: unknown): void {
+    reportError(this.errorCallbacks, error);
+  }
+
+  /** End every pending waitForEdge() and edges() consumer */
+  private endSubscribers(): void {
+    for (const subscriber of [...this.subscribers]) {
+      subscriber.end();
+    }
+    this.subscribers.clear();
+  }
+
+  /**
+   * Change the settings of the input without releasing the line.
+   * Options that are not given keep their current value. Edge callbacks
+   * stay registered and resume when edge detection is enabled again.
+   */
+  reconfigure(options: GPIOInputOptions): this {
+    this.checkClosed();
+    const merged = { ...this.options, ...options };
+    if (merged.kernelBufferSize !== this.options.kernelBufferSize) {
+      throw new InvalidArgumentError(
+        `The kernel buffer size of GPIO pin ${this._pin} can only be set when the line is requested`,
+        { pin: this._pin, chip: this.owner.path }
+      );
+    }
+    validateReadBufferSize(merged.readBufferSize);
+
+    reconfigureLine(
+      this.request,
+      this._pin,
+      this.owner.path,
+      inputLineSettings(merged)
+    );
+
+    this.options = merged;
+    this._edge = merged.edge ?? "none";
+
+    if (this._edge === "none") {
+      this.endSubscribers();
+    } else if (this.subscribed && options.readBufferSize !== undefined) {
+      // Subscribe again to read with the new buffer size
+      this.request.onEdgeEvents(null);
+      this.subscribed = false;
+    }
+    this.updateSubscription();
+
+    this.configureDebounce();
+    return this;
+  }
+
+  /**
+   * Switch the line to an output without releasing it, so no other process
+   * can claim the line in between. This input is closed and the returned
+   * output owns the line from now on.
+   */
+  toOutput(options: GPIOOutputOptions = {}): GPIOOutput {
+    this.checkClosed();
+    validateOutputOptions(this._pin, options);
+
+    reconfigureLine(
+      this.request,
+      this._pin,
+      this.owner.path,
+      outputLineSettings(options)
+    );
+
+    this.release(false);
+    const output = new GPIOOutput(this.request, this._pin, options, this.owner);
+    this.owner.adopt(output);
+    return output;
+  }
+
+  private release(releaseLine: boolean): void {
+    this._closed = true;
+    this.owner.forget(this);
+    for (const end of [...this.samplerEnds]) {
+      end();
+    }
+    this.changeWatchers.clear();
+    this.debouncer?.dispose();
+    this.debouncer = null;
+    this.updateSubscription();
+    this.endSubscribers();
+    if (releaseLine) {
+      this.request.release();
+    }
+    this.edgeCallbacks = [];
+    this.overflowCallbacks = [];
+  }
+
   /** Release the GPIO line */
   close(): void {
     if (!this._closed) {
-      this.stopPolling();
-      if (this.eventBuffer) {
-        this.lib.symbols.gpiod_edge_event_buffer_free(this.eventBuffer);
-        this.eventBuffer = null;
+      this.release(true);
+    }
+  }
+
+  /** Close when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  /** Close when leaving an `await using` block */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.close();
+  }
+}
+
+// =============================================================================
+// GPIOGroup Class
+// =============================================================================
+
+/**
+ * Several lines requested together, for parallel buses and other signals
+ * that must change at the same time.
+ *
+ * Numeric values map pins[0] to bit 0, pins[1] to bit 1 and so on.
+ */
+export class GPIOGroup {
+  private request: LineRequestHandle;
+  private owner: GPIO;
+  private _pins: number[];
+  private directions: LineDirection[];
+  private _state: boolean[];
+  private safeState: boolean[] | null;
+  private _closed: boolean = false;
+
+  /** Largest group that can be read or written as a number */
+  private static readonly MAX_NUMERIC_LINES = 32;
+
+  /** @internal */
+  constructor(
+    request: LineRequestHandle,
+    pins: number[],
+    directions: LineDirection[],
+    initialState: boolean[],
+    safeState: boolean[] | null,
+    owner: GPIO
+  ) {
+    this.request = request;
+    this.owner = owner;
+    this.safeState = safeState;
+    this._pins = [...pins];
+    this.directions = [...directions];
+    this._state = directions.map(
+      (direction, i) => direction === "output" && (initialState[i] ?? false)
+    );
+  }
+
+  /** The GPIO pins in bus order */
+  get pins(): readonly number[] {
+    return this._pins;
+  }
+
+  /** Number of lines in the group */
+  get size(): number {
+    return this._pins.length;
+  }
+
+  /** Last written state of each line (always false for inputs) */
+  get state(): readonly boolean[] {
+    return this._state;
+  }
+
+  /** Check if the group has been closed */
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  private checkClosed(): void {
+    if (this._closed) {
+      throw new ClosedError(
+        `GPIOGroup on pins ${this._pins.join(", ")} has been closed`,
+        { pins: this._pins, chip: this.owner.path }
+      );
+    }
+  }
+
+  private checkNumeric(): void {
+    if (this._pins.length > GPIOGroup.MAX_NUMERIC_LINES) {
+      throw new InvalidArgumentError(
+        `Numeric values are limited to ${GPIOGroup.MAX_NUMERIC_LINES} lines, use boolean arrays instead`
+      );
+    }
+  }
+
+  /** Pins selected by the set bits of a mask */
+  private pinsInMask(mask: number): number[] {
+    this.checkNumeric();
+    return this._pins.filter((_, i) => ((mask >>> i) & 1) === 1);
+  }
+
+  /** Read the values of all lines at once */
+  readAll(): boolean[] {
+    this.checkClosed();
+    try {
+      return this.request.getValues(this._pins);
+    } catch (err) {
+      throw backendError(
+        `Failed to read GPIO pins ${this._pins.join(", ")}`,
+        err,
+        { pins: this._pins, chip: this.owner.path }
+      );
+    }
+  }
+
+  /** Read all lines as a bus-encoded number */
+  read(): number {
+    this.checkNumeric();
+    return encodeBits(this.readAll());
+  }
+
+  /**
+   * Read the lines selected by a mask at once
+   * @param mask Bit mask of lines to read
+   * @returns Bus-encoded values, with unselected bits cleared
+   */
+  readMask(mask: number): number {
+    this.checkClosed();
+    const pins = this.pinsInMask(mask);
+    if (pins.length === 0) {
+      return 0;
+    }
+
+    let values: boolean[];
+    try {
+      values = this.request.getValues(pins);
+    } catch (err) {
+      throw backendError(`Failed to read GPIO pins ${pins.join(", ")}`, err, {
+        pins: pins,
+        chip: this.owner.path,
+      });
+    }
+
+    let output = 0;
+    pins.forEach((pin, i) => {
+      if (values[i]) {
+        output |= 1 << this._pins.indexOf(pin);
       }
-      this.lib.symbols.gpiod_line_request_release(this.request);
+    });
+    return output >>> 0;
+  }
+
+  /**
+   * Write all output lines at once. Values for input lines are ignored.
+   * @param value Bus-encoded number or one boolean per line
+   */
+  writeAll(value: number | boolean[]): this {
+    this.checkClosed();
+    if (!Array.isArray(value)) {
+      this.checkNumeric();
+    }
+    const values = Array.isArray(value)
+      ? this._pins.map((_, i) => value[i] ?? false)
+      : decodeBits(value, this._pins.length);
+
+    const indexes = this._pins
+      .map((_, i) => i)
+      .filter((i) => this.directions[i] === "output");
+    this.writeSubset(indexes, values);
+    return this;
+  }
+
+  /**
+   * Write only the lines selected by a mask, leaving the others untouched
+   * @param mask Bit mask of lines to write
+   * @param value Bus-encoded values for the selected lines
+   */
+  writeMask(mask: number, value: number): this {
+    this.checkClosed();
+    this.checkNumeric();
+    const values = decodeBits(value, this._pins.length);
+    const indexes = this._pins
+      .map((_, i) => i)
+      .filter((i) => ((mask >>> i) & 1) === 1);
+
+    for (const i of indexes) {
+      if (this.directions[i] !== "output") {
+        throw new InvalidArgumentError(
+          `GPIO pin ${this._pins[i]} is not an output`,
+          { pin: this._pins[i] }
+        );
+      }
+    }
+
+    this.writeSubset(indexes, values);
+    return this;
+  }
+
+  private writeSubset(indexes: number[], values: boolean[]): void {
+    if (indexes.length === 0) {
+      return;
+    }
+
+    const pins = indexes.map((i) => this._pins[i]!);
+    try {
+      this.request.setValues(
+        pins,
+        indexes.map((i) => values[i] ?? false)
+      );
+    } catch (err) {
+      throw backendError(`Failed to write GPIO pins ${pins.join(", ")}`, err, {
+        pins: pins,
+        chip: this.owner.path,
+      });
+    }
+
+    for (const i of indexes) {
+      this._state[i] = values[i] ?? false;
+    }
+  }
+
+  /**
+   * Drive the output lines to their safe values
+   * @internal
+   */
+  applySafeState(): void {
+    if (!this._closed && this.safeState) {
+      this.writeAll(this.safeState);
+    }
+  }
+
+  /** Release all lines in the group */
+  close(): void {
+    if (!this._closed) {
+      this.request.release();
       this._closed = true;
-      this.edgeCallbacks = [];
+      this.owner.forget(this);
     }
   }
+
+  /** Close when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  /** Close when leaving an `await using` block */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.close();
+  }
 }
 
 // =============================================================================
@@ -463,30 +1891,109 @@ export class GPIOInput {
  * Main GPIO controller for a chip
  */
 export class GPIO {
-  private lib: Libgpiod;
-  private chip: Pointer;
+  private backend: GPIOBackend;
+  private chip: ChipHandle;
+  private _scheduler: Scheduler;
   private _path: string;
   private _closed: boolean = false;
   private outputs: GPIOOutput[] = [];
   private inputs: GPIOInput[] = [];
+  private groups: GPIOGroup[] = [];
+  private lineWatchers: Map<number, Set<LineInfoCallback>> = new Map();
+  private infoIteratorEnds: Set<() => void> = new Set();
+  private watchingInfo: boolean = false;
+  private errorCallbacks: ErrorCallback[] = [];
 
   /**
    * Create a new GPIO controller
    * @param chipPath Path to the GPIO chip (e.g., "/dev/gpiochip0")
-   * @param libraryPath Optional path to libgpiod shared library
+   * @param options Backend or libgpiod library path, or just the library path
    */
   constructor(
     chipPath: string = "/dev/gpiochip0",
-    libraryPath: string = "/lib/aarch64-linux-gnu/libgpiod.so.3"
+    options: GPIOOptions | string = {}
   ) {
-    this.lib = loadLibgpiod(libraryPath);
+    const { scheduler = systemScheduler } = gpioOptions(options);
+    this.backend = resolveBackend(gpioOptions(options));
+    this._scheduler = scheduler;
     this._path = chipPath;
 
-    const chip = this.lib.symbols.gpiod_chip_open(cstr(chipPath));
-    if (!chip) {
-      throw new Error(`Failed to open GPIO chip at ${chipPath}`);
+    try {
+      this.chip = this.backend.openChip(chipPath);
+    } catch (err) {
+      throw backendError(`Failed to open GPIO chip at ${chipPath}`, err, {
+        chip: chipPath,
+      });
+    }
+    trackResource(this);
+  }
+
+  /**
+   * List the GPIO chips on this system
+   * @param options Backend or libgpiod library path, or just the library path
+   */
+  static listChips(options: GPIOOptions | string = {}): ChipSummary[] {
+    const backend = resolveBackend(gpioOptions(options));
+    const paths = backend.listChips();
+
+    const chips: ChipSummary[] = [];
+    for (const path of paths) {
+      let gpio: GPIO;
+      try {
+        gpio = new GPIO(path, { backend });
+      } catch {
+        // Skip chips we are not allowed to open
+        continue;
+      }
+      try {
+        chips.push({ path, ...gpio.getChipInfo() });
+      } finally {
+        gpio.close();
+      }
     }
-    this.chip = chip;
+    return chips;
+  }
+
+  /**
+   * Open the first chip matching a label and/or containing a named line.
+   * Useful when the chip number changes between kernel versions, such as
+   * the Raspberry Pi 5 header chip ("pinctrl-rp1").
+   * @param selector Label and/or line name the chip must match
+   * @param options Backend or libgpiod library path, or just the library path
+   */
+  static open(
+    selector: ChipSelector,
+    options: GPIOOptions | string = {}
+  ): GPIO {
+    const { label, lineName } = selector;
+    if (label === undefined && lineName === undefined) {
+      throw new InvalidArgumentError(
+        "GPIO.open() needs a label or a line name"
+      );
+    }
+
+    const { scheduler } = gpioOptions(options);
+    const backend = resolveBackend(gpioOptions(options));
+    for (const chip of GPIO.listChips({ backend })) {
+      if (label !== undefined && chip.label !== label) {
+        continue;
+      }
+
+      const gpio = new GPIO(chip.path, { backend, scheduler });
+      if (lineName !== undefined && !gpio.hasLine(lineName)) {
+        gpio.close();
+        continue;
+      }
+      return gpio;
+    }
+
+    const criteria = [
+      label !== undefined ? `label "${label}"` : null,
+      lineName !== undefined ? `line "${lineName}"` : null,
+    ]
+      .filter(Boolean)
+      .join(" and ");
+    throw new NotFoundError(`No GPIO chip found with ${criteria}`);
   }
 
   /** Path to the GPIO chip */
@@ -499,155 +2006,308 @@ export class GPIO {
     return this._closed;
   }
 
+  /** Time source and timers used by the lines of this chip */
+  get scheduler(): Scheduler {
+    return this._scheduler;
+  }
+
   private checkClosed(): void {
     if (this._closed) {
-      throw new Error("GPIO controller has been closed");
+      throw new ClosedError("GPIO controller has been closed", {
+        chip: this._path,
+      });
     }
   }
 
   /**
    * Get information about the chip
    */
-  getChipInfo(): {
-    name: string | null;
-    label: string | null;
-    numLines: number;
-  } {
+  getChipInfo(): ChipInfo {
     this.checkClosed();
-    const info = this.lib.symbols.gpiod_chip_get_info(this.chip);
-    if (!info) {
-      throw new Error("Failed to get chip info");
+    try {
+      return this.chip.getInfo();
+    } catch (err) {
+      throw backendError("Failed to get chip info", err, { chip: this._path });
     }
-
-    const nameResult = this.lib.symbols.gpiod_chip_info_get_name(info);
-    const labelResult = this.lib.symbols.gpiod_chip_info_get_label(info);
-    const result = {
-      name: nameResult ? String(nameResult) : null,
-      label: labelResult ? String(labelResult) : null,
-      numLines: Number(this.lib.symbols.gpiod_chip_info_get_num_lines(info)),
-    };
-
-    this.lib.symbols.gpiod_chip_info_free(info);
-    return result;
   }
 
   /**
    * Get information about a specific line
    */
-  getLineInfo(pin: number): {
-    offset: number;
-    name: string | null;
-    used: boolean;
-    consumer: string | null;
-    direction: "input" | "output";
-  } {
-    this.checkClosed();
-    const info = this.lib.symbols.gpiod_chip_get_line_info(this.chip, pin);
-    if (!info) {
-      throw new Error(`Failed to get line info for pin ${pin}`);
-    }
-
-    const direction = this.lib.symbols.gpiod_line_info_get_direction(info);
-    const nameResult = this.lib.symbols.gpiod_line_info_get_name(info);
-    const consumerResult = this.lib.symbols.gpiod_line_info_get_consumer(info);
-
-    const result = {
-      offset: this.lib.symbols.gpiod_line_info_get_offset(info),
-      name: nameResult ? String(nameResult) : null,
-      used: this.lib.symbols.gpiod_line_info_is_used(info),
-      consumer: consumerResult ? String(consumerResult) : null,
-      direction:
-        direction === GPIOD_LINE_DIRECTION.INPUT
-          ? ("input" as const)
-          : ("output" as const),
-    };
+  getLineInfo(pin: number): LineInfo {
+    this.checkClosed();
+    try {
+      return this.chip.getLineInfo(pin);
+    } catch (err) {
+      throw backendError(`Failed to get line info for pin ${pin}`, err, {
+        pin,
+        chip: this._path,
+      });
+    }
+  }
 
-    this.lib.symbols.gpiod_line_info_free(info);
-    return result;
+  /**
+   * Get information about every line on the chip, like `gpioinfo`
+   */
+  lines(): LineInfo[] {
+    const { numLines } = this.getChipInfo();
+    const lines: LineInfo[] = [];
+    for (let pin = 0; pin < numLines; pin++) {
+      lines.push(this.getLineInfo(pin));
+    }
+    return lines;
   }
 
   /**
-   * Find a pin number by its name
+   * Watch a line for changes made by any process: requests, releases and
+   * reconfigurations.
+   * @param pin GPIO pin to watch
+   * @param callback Called with a snapshot of the line after each change
    */
-  findPin(name: string): number {
+  watchLine(pin: number, callback: LineInfoCallback): this {
     this.checkClosed();
-    const offset = this.lib.symbols.gpiod_chip_get_line_offset_from_name(
-      this.chip,
-      cstr(name)
-    );
-    if (offset < 0) {
-      throw new Error(`Pin not found: ${name}`);
+
+    let callbacks = this.lineWatchers.get(pin);
+    if (!callbacks) {
+      try {
+        this.chip.watchLineInfo(pin);
+      } catch (err) {
+        throw backendError(`Failed to watch line info for pin ${pin}`, err, {
+          pin,
+          chip: this._path,
+        });
+      }
+
+      callbacks = new Set();
+      this.lineWatchers.set(pin, callbacks);
     }
-    return offset;
+    callbacks.add(callback);
+
+    if (!this.watchingInfo) {
+      this.chip.onInfoEvents(
+        (event) => this.handleInfoEvent(event),
+        (err) => {
+          // Watching again on the next watchLine()
+          this.watchingInfo = false;
+          reportError(this.errorCallbacks, err);
+        }
+      );
+      this.watchingInfo = true;
+    }
+
+    return this;
   }
 
   /**
-   * Create a digital output
+   * Stop watching a line
+   * @param pin GPIO pin to stop watching
+   * @param callback Callback to remove (default: all callbacks for the pin)
    */
-  output(pin: number, options: GPIOOutputOptions = {}): GPIOOutput {
-    this.checkClosed();
-    const { initialValue = false, activeLow = false } = options;
+  unwatchLine(pin: number, callback?: LineInfoCallback): this {
+    const callbacks = this.lineWatchers.get(pin);
+    if (!callbacks) {
+      return this;
+    }
 
-    // Create settings
-    const settings = this.lib.symbols.gpiod_line_settings_new();
-    if (!settings) {
-      throw new Error("Failed to create line settings");
+    if (callback) {
+      callbacks.delete(callback);
+    } else {
+      callbacks.clear();
     }
 
-    this.lib.symbols.gpiod_line_settings_set_direction(
-      settings,
-      GPIOD_LINE_DIRECTION.OUTPUT
-    );
-    this.lib.symbols.gpiod_line_settings_set_output_value(
-      settings,
-      initialValue ? GPIOD_LINE_VALUE.ACTIVE : GPIOD_LINE_VALUE.INACTIVE
-    );
-    this.lib.symbols.gpiod_line_settings_set_active_low(settings, activeLow);
+    if (callbacks.size === 0) {
+      this.lineWatchers.delete(pin);
+      if (!this._closed) {
+        this.chip.unwatchLineInfo(pin);
+      }
+    }
 
-    // Create line config
-    const lineConfig = this.lib.symbols.gpiod_line_config_new();
-    if (!lineConfig) {
-      this.lib.symbols.gpiod_line_settings_free(settings);
-      throw new Error("Failed to create line config");
+    if (this.lineWatchers.size === 0 && this.watchingInfo) {
+      this.chip.onInfoEvents(null);
+      this.watchingInfo = false;
     }
 
-    const offsets = new Uint32Array([pin]);
-    this.lib.symbols.gpiod_line_config_add_line_settings(
-      lineConfig,
-      ptr(offsets.buffer),
-      1,
-      settings
-    );
+    return this;
+  }
 
-    // Create request config
-    const reqConfig = this.lib.symbols.gpiod_request_config_new();
-    if (!reqConfig) {
-      this.lib.symbols.gpiod_line_settings_free(settings);
-      this.lib.symbols.gpiod_line_config_free(lineConfig);
-      throw new Error("Failed to create request config");
+  /**
+   * Async iterator for line info events on one or more pins
+   * @param pins GPIO pin or pins to watch
+   */
+  async *lineInfoEvents(
+    pins: number | number[]
+  ): AsyncGenerator<LineInfoEvent, void, unknown> {
+    this.checkClosed();
+    const watched = Array.isArray(pins) ? pins : [pins];
+
+    const queue: LineInfoEvent[] = [];
+    let ended = false;
+    let notify: (() => void) | null = null;
+
+    const callback: LineInfoCallback = (event) => {
+      queue.push(event);
+      notify?.();
+    };
+    const end = () => {
+      ended = true;
+      notify?.();
+    };
+
+    for (const [i, pin] of watched.entries()) {
+      try {
+        this.watchLine(pin, callback);
+      } catch (err) {
+        for (const done of watched.slice(0, i)) {
+          this.unwatchLine(done, callback);
+        }
+        throw err;
+      }
     }
-    this.lib.symbols.gpiod_request_config_set_consumer(
-      reqConfig,
-      cstr("bun-gpio")
-    );
+    this.infoIteratorEnds.add(end);
+
+    try {
+      while (true) {
+        const event = queue.shift();
+        if (event) {
+          yield event;
+        } else if (ended) {
+          return;
+        } else {
+          await new Promise<void>((resolve) => (notify = resolve));
+          notify = null;
+        }
+      }
+    } finally {
+      this.infoIteratorEnds.delete(end);
+      for (const pin of watched) {
+        this.unwatchLine(pin, callback);
+      }
+    }
+  }
 
-    // Request lines
-    const request = this.lib.symbols.gpiod_chip_request_lines(
-      this.chip,
-      reqConfig,
-      lineConfig
-    );
+  /**
+   * Hand an info event to the watchers of its line
+   */
+  private handleInfoEvent(event: LineInfoEvent): void {
+    for (const callback of [...(this.lineWatchers.get(event.pin) ?? [])]) {
+      try {
+        callback(event);
+      } catch (err) {
+        reportError(this.errorCallbacks, err);
+      }
+    }
+  }
 
-    // Cleanup config objects
-    this.lib.symbols.gpiod_line_settings_free(settings);
-    this.lib.symbols.gpiod_line_config_free(lineConfig);
-    this.lib.symbols.gpiod_request_config_free(reqConfig);
+  /**
+   * Register a callback for exceptions thrown by line info callbacks, and
+   * for failures of the event poller thread. Without callbacks, these errors are rethrown as uncaught exceptions.
+   */
+  onError(callback: ErrorCallback): this {
+    this.checkClosed();
+    this.errorCallbacks.push(callback);
+    return this;
+  }
 
-    if (!request) {
-      throw new Error(`Failed to request GPIO pin ${pin} as output`);
+  /**
+   * Remove an error callback
+   */
+  offError(callback: ErrorCallback): this {
+    const index = this.errorCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.errorCallbacks.splice(index, 1);
     }
+    return this;
+  }
 
-    const output = new GPIOOutput(this.lib, request, pin, initialValue);
+  /**
+   * Check whether the chip has a line with the given name
+   */
+  hasLine(name: string): boolean {
+    this.checkClosed();
+    return this.chip.findLine(name) !== null;
+  }
+
+  /**
+   * Find a pin number by its name
+   */
+  findPin(name: string): number {
+    this.checkClosed();
+    const offset = this.chip.findLine(name);
+    if (offset === null) {
+      throw new NotFoundError(`Pin not found: ${name}`, { chip: this._path });
+    }
+    return offset;
+  }
+
+  /**
+   * Request a set of lines in a single request, in the given order
+   */
+  private requestLines(
+    lines: LineRequestEntry[],
+    description: string,
+    eventBufferSize?: number
+  ): LineRequestHandle {
+    try {
+      return this.chip.requestLines({
+        consumer: "bun-gpio",
+        lines,
+        eventBufferSize,
+      });
+    } catch (err) {
+      const pins = lines.map((line) => line.offset);
+      const error = backendError(`Failed to request ${description}`, err, {
+        pin: pins.length === 1 ? pins[0] : undefined,
+        pins: pins.length > 1 ? pins : undefined,
+        chip: this._path,
+      });
+      throw error instanceof LineBusyError
+        ? this.busyError(error, pins)
+        : error;
+    }
+  }
+
+  /**
+   * Attach the pin and consumer of the line that is already in use
+   */
+  private busyError(error: LineBusyError, pins: number[]): LineBusyError {
+    for (const pin of pins) {
+      let info: LineInfo;
+      try {
+        info = this.getLineInfo(pin);
+      } catch {
+        continue;
+      }
+      if (info.used) {
+        return new LineBusyError(
+          `${error.message} (pin ${pin} is used by ${
+            info.consumer ?? "an unnamed consumer"
+          })`,
+          {
+            errno: error.errno,
+            pin,
+            pins: error.pins,
+            chip: this._path,
+            consumer: info.consumer,
+          }
+        );
+      }
+    }
+    return error;
+  }
+
+  /**
+   * Create a digital output
+   */
+  output(pin: number, options: GPIOOutputOptions = {}): GPIOOutput {
+    this.checkClosed();
+    validateOutputOptions(pin, options);
+
+    const request = this.requestLines(
+      [{ offset: pin, settings: outputLineSettings(options) }],
+      `GPIO pin ${pin} as output`
+    );
+
+    const output = new GPIOOutput(request, pin, options, this);
     this.outputs.push(output);
     return output;
   }
@@ -656,112 +2316,200 @@ export class GPIO {
    * Create a digital input
    */
   input(pin: number, options: GPIOInputOptions = {}): GPIOInput {
+    this.checkClosed();
+    validateReadBufferSize(options.readBufferSize);
+    if (
+      options.kernelBufferSize !== undefined &&
+      (!Number.isInteger(options.kernelBufferSize) ||
+        options.kernelBufferSize < 0)
+    ) {
+      throw new InvalidArgumentError(
+        "Kernel buffer size must be a non-negative integer"
+      );
+    }
+
+    const request = this.requestLines(
+      [{ offset: pin, settings: inputLineSettings(options) }],
+      `GPIO pin ${pin} as input`,
+      options.kernelBufferSize
+    );
+
+    const input = new GPIOInput(request, pin, options, this);
+    this.inputs.push(input);
+    return input;
+  }
+
+  /**
+   * Create a group of lines requested together.
+   * Reads and writes on the group happen in a single call, so all lines
+   * change at the same time.
+   * @param pins GPIO pins in bus order (pins[0] is bit 0)
+   * @param options Group configuration options
+   */
+  group(pins: number[], options: GPIOGroupOptions = {}): GPIOGroup {
     this.checkClosed();
     const {
-      bias = "disabled",
-      edge = "none",
+      direction = "output",
+      initialValue = 0,
       activeLow = false,
-      debounceMs = 0,
+      bias,
+      drive,
+      safeValue,
+      lines = {},
     } = options;
 
-    // Create settings
-    const settings = this.lib.symbols.gpiod_line_settings_new();
-    if (!settings) {
-      throw new Error("Failed to create line settings");
+    if (pins.length === 0) {
+      throw new InvalidArgumentError("A GPIO group needs at least one pin");
+    }
+    if (new Set(pins).size !== pins.length) {
+      throw new InvalidArgumentError("GPIO group pins must be unique");
     }
 
-    this.lib.symbols.gpiod_line_settings_set_direction(
-      settings,
-      GPIOD_LINE_DIRECTION.INPUT
+    const initialValues = Array.isArray(initialValue)
+      ? pins.map((_, i) => initialValue[i] ?? false)
+      : decodeBits(initialValue, pins.length);
+    const safeValues =
+      safeValue === undefined
+        ? null
+        : Array.isArray(safeValue)
+        ? pins.map((_, i) => safeValue[i] ?? false)
+        : decodeBits(safeValue, pins.length);
+
+    const directions = pins.map((pin) => lines[pin]?.direction ?? direction);
+    const lineOptions = pins.map((pin) => ({
+      activeLow: lines[pin]?.activeLow ?? activeLow,
+      bias: lines[pin]?.bias ?? bias,
+      drive: lines[pin]?.drive ?? drive,
+    }));
+
+    pins.forEach((pin, i) => {
+      if (directions[i] === "output") {
+        validateOutputOptions(pin, lineOptions[i]!);
+      } else if (lineOptions[i]!.drive !== undefined) {
+        throw new InvalidArgumentError(
+          `Invalid options for GPIO pin ${pin}: drive only applies to outputs`,
+          { pin }
+        );
+      }
+    });
+
+    const request = this.requestLines(
+      pins.map((pin, i) => {
+        const { activeLow, bias, drive } = lineOptions[i]!;
+        return {
+          offset: pin,
+          settings:
+            directions[i] === "output"
+              ? outputLineSettings({
+                  initialValue: initialValues[i],
+                  activeLow,
+                  bias,
+                  drive,
+                })
+              : inputLineSettings({ bias, activeLow }),
+        };
+      }),
+      `GPIO pins ${pins.join(", ")} as group`
     );
-    this.lib.symbols.gpiod_line_settings_set_bias(settings, biasToGpiod(bias));
-    this.lib.symbols.gpiod_line_settings_set_edge_detection(
-      settings,
-      edgeToGpiod(edge)
+
+    const group = new GPIOGroup(
+      request,
+      pins,
+      directions,
+      initialValues,
+      safeValues,
+      this
     );
-    this.lib.symbols.gpiod_line_settings_set_active_low(settings, activeLow);
+    this.groups.push(group);
+    return group;
+  }
 
-    if (debounceMs > 0) {
-      this.lib.symbols.gpiod_line_settings_set_debounce_period_us(
-        settings,
-        BigInt(debounceMs * 1000)
-      );
+  /**
+   * Track a line that changed direction, so it is released on close
+   * @internal
+   */
+  adopt(line: GPIOOutput | GPIOInput): void {
+    if (line instanceof GPIOOutput) {
+      this.outputs.push(line);
+    } else {
+      this.inputs.push(line);
     }
+  }
 
-    // Create line config
-    const lineConfig = this.lib.symbols.gpiod_line_config_new();
-    if (!lineConfig) {
-      this.lib.symbols.gpiod_line_settings_free(settings);
-      throw new Error("Failed to create line config");
+  /**
+   * Stop tracking lines that were closed or changed direction
+   * @internal
+   */
+  forget(line: GPIOOutput | GPIOInput | GPIOGroup): void {
+    if (line instanceof GPIOOutput) {
+      this.outputs = this.outputs.filter((output) => output !== line);
+    } else if (line instanceof GPIOInput) {
+      this.inputs = this.inputs.filter((input) => input !== line);
+    } else {
+      this.groups = this.groups.filter((group) => group !== line);
     }
+  }
 
-    const offsets = new Uint32Array([pin]);
-    this.lib.symbols.gpiod_line_config_add_line_settings(
-      lineConfig,
-      ptr(offsets.buffer),
-      1,
-      settings
-    );
-
-    // Create request config
-    const reqConfig = this.lib.symbols.gpiod_request_config_new();
-    if (!reqConfig) {
-      this.lib.symbols.gpiod_line_settings_free(settings);
-      this.lib.symbols.gpiod_line_config_free(lineConfig);
-      throw new Error("Failed to create request config");
+  /**
+   * Drive every output and output group to its safe value before shutdown
+   * @internal
+   */
+  applySafeState(): void {
+    for (const output of this.outputs) {
+      output.applySafeState();
     }
-    this.lib.symbols.gpiod_request_config_set_consumer(
-      reqConfig,
-      cstr("bun-gpio")
-    );
-
-    // Request lines
-    const request = this.lib.symbols.gpiod_chip_request_lines(
-      this.chip,
-      reqConfig,
-      lineConfig
-    );
-
-    // Cleanup config objects
-    this.lib.symbols.gpiod_line_settings_free(settings);
-    this.lib.symbols.gpiod_line_config_free(lineConfig);
-    this.lib.symbols.gpiod_request_config_free(reqConfig);
-
-    if (!request) {
-      throw new Error(`Failed to request GPIO pin ${pin} as input`);
+    for (const group of this.groups) {
+      group.applySafeState();
     }
-
-    const input = new GPIOInput(this.lib, request, pin, edge);
-    this.inputs.push(input);
-    return input;
   }
 
   /**
-   * Close all GPIO resources
+   * Close all GPIO resources, including any SoftwarePWM driving an output.
+   * Calling close() again has no effect.
    */
   close(): void {
     if (!this._closed) {
-      // Close all outputs
-      for (const output of this.outputs) {
-        if (!output.closed) {
-          output.close();
-        }
+      // Close all outputs, which stop being tracked as they close
+      for (const output of [...this.outputs]) {
+        output.close();
       }
-      this.outputs = [];
 
       // Close all inputs
-      for (const input of this.inputs) {
-        if (!input.closed) {
-          input.close();
-        }
+      for (const input of [...this.inputs]) {
+        input.close();
+      }
+
+      // Close all groups
+      for (const group of [...this.groups]) {
+        group.close();
+      }
+
+      // Stop watching line info
+      if (this.watchingInfo) {
+        this.chip.onInfoEvents(null);
+        this.watchingInfo = false;
+      }
+      this.lineWatchers.clear();
+      for (const end of [...this.infoIteratorEnds]) {
+        end();
       }
-      this.inputs = [];
 
       // Close chip
-      this.lib.symbols.gpiod_chip_close(this.chip);
+      this.chip.close();
       this._closed = true;
+      untrackResource(this);
     }
   }
+
+  /** Close when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  /** Close when leaving an `await using` block */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.close();
+  }
 }
 
 // =============================================================================
@@ -1,3 +1,107 @@
 export * from "./gpio.ts";
 export * from "./pwm.ts";
 export * from "./software-pwm.ts";
+export {
+  PWMSimulator,
+  SimulatedPWMChip,
+  type PWMSimulatorOptions,
+  type SimulatedPWMChipOptions,
+  type PWMChannelState,
+  type PWMPolarity,
+  type PWMAttribute,
+  type PWMAttributeWrite,
+} from "./pwm-simulator.ts";
+export {
+  EdgeRecorder,
+  type EdgeRecorderOptions,
+  type RecordedChange,
+  type VCDOptions,
+  type ReplayOptions,
+} from "./edge-recorder.ts";
+export {
+  PulseMeter,
+  type PulseMeterOptions,
+  type PulseStats,
+  type PulseCallback,
+} from "./pulse-meter.ts";
+export {
+  RotaryEncoder,
+  type RotaryEncoderOptions,
+  type QuadratureDecoding,
+  type RotateEvent,
+  type RotateCallback,
+  type ButtonCallback,
+} from "./rotary-encoder.ts";
+export {
+  Button,
+  type ButtonOptions,
+  type ButtonEvent,
+  type ButtonEventCallback,
+  type ButtonPressEvent,
+  type ButtonReleaseEvent,
+  type ButtonClickEvent,
+  type ButtonLongPressEvent,
+  type ButtonRepeatEvent,
+} from "./button.ts";
+export {
+  Stepper,
+  type StepperOptions,
+  type StepperMotionOptions,
+  type CoilStepperOptions,
+  type DriverStepperOptions,
+  type StepperMoveOptions,
+  type StepperHomeOptions,
+  type StepperMode,
+  type CoilMode,
+} from "./stepper.ts";
+export {
+  Servo,
+  type ServoOptions,
+  type ServoCalibration,
+  type SweepOptions,
+} from "./servo.ts";
+export {
+  systemScheduler,
+  VirtualScheduler,
+  type Scheduler,
+  type TimerHandle,
+} from "./scheduler.ts";
+export { LibgpiodBackend } from "./libgpiod-backend.ts";
+export {
+  GPIOSimulator,
+  SimulatedChip,
+  type GPIOSimulatorOptions,
+  type SimulatedChipOptions,
+  type DriveOptions,
+  type BounceOptions,
+  type OutputChange,
+  type LineConflict,
+} from "./gpio-simulator.ts";
+export type {
+  GPIOBackend,
+  ChipHandle,
+  LineRequestHandle,
+  LineRequestConfig,
+  LineRequestEntry,
+  LineSettings,
+  EdgeEventsCallback,
+  InfoEventCallback,
+} from "./backend.ts";
+export {
+  HallonbullarError,
+  LineBusyError,
+  PermissionError,
+  NotFoundError,
+  InvalidArgumentError,
+  ClosedError,
+  type ErrorDetails,
+  type ErrorCallback,
+} from "./errors.ts";
+export {
+  enableSafeShutdown,
+  disableSafeShutdown,
+  isSafeShutdownEnabled,
+  releaseAll,
+  type SafeShutdownOptions,
+  type ShutdownReason,
+} from "./shutdown.ts";
@@ -0,0 +1,735 @@
+/**
+ * GPIO backend using libgpiod v2 through FFI
+ *
+ * This is the default backend of the GPIO controller. Edge and line info
+ * events are read on the main thread whenever the shared event poller sees
+ * the request or chip file descriptor become readable.
+ */
+
+import {
+  loadLibgpiod,
+  cstr,
+  type Libgpiod,
+  GPIOD_LINE_DIRECTION,
+  GPIOD_LINE_EDGE,
+  GPIOD_LINE_BIAS,
+  GPIOD_LINE_DRIVE,
+  GPIOD_LINE_CLOCK,
+  GPIOD_LINE_VALUE,
+  GPIOD_EDGE_EVENT_TYPE,
+  GPIOD_INFO_EVENT_TYPE,
+  type GpiodLineEdge,
+  type GpiodLineBias,
+  type GpiodLineDrive,
+  type GpiodLineClock,
+} from "./libgpiod";
+
+import type {
+  BiasSetting,
+  ChipInfo,
+  DriveSetting,
+  EdgeEvent,
+  EdgeSetting,
+  EventClock,
+  LineInfo,
+  LineInfoEventType,
+} from "./gpio";
+import type {
+  ChipHandle,
+  EdgeEventsCallback,
+  GPIOBackend,
+  InfoEventCallback,
+  LineRequestConfig,
+  LineRequestHandle,
+  LineSettings,
+} from "./backend";
+import { getEventPoller } from "./event-poller";
+import { errorFromErrno, lastErrno, type ErrorCallback } from "./errors";
+
+import { readdirSync } from "fs";
+
+import { ptr, type Pointer } from "bun:ffi";
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function biasToGpiod(bias: BiasSetting): GpiodLineBias {
+  switch (bias) {
+    case "disabled":
+      return GPIOD_LINE_BIAS.DISABLED;
+    case "pull-up":
+      return GPIOD_LINE_BIAS.PULL_UP;
+    case "pull-down":
+      return GPIOD_LINE_BIAS.PULL_DOWN;
+    default:
+      return GPIOD_LINE_BIAS.DISABLED;
+  }
+}
+
+function edgeToGpiod(edge: EdgeSetting): GpiodLineEdge {
+  switch (edge) {
+    case "none":
+      return GPIOD_LINE_EDGE.NONE;
+    case "rising":
+      return GPIOD_LINE_EDGE.RISING;
+    case "falling":
+      return GPIOD_LINE_EDGE.FALLING;
+    case "both":
+      return GPIOD_LINE_EDGE.BOTH;
+    default:
+      return GPIOD_LINE_EDGE.NONE;
+  }
+}
+
+function biasFromGpiod(bias: number): BiasSetting | "unknown" {
+  switch (bias) {
+    case GPIOD_LINE_BIAS.DISABLED:
+      return "disabled";
+    case GPIOD_LINE_BIAS.PULL_UP:
+      return "pull-up";
+    case GPIOD_LINE_BIAS.PULL_DOWN:
+      return "pull-down";
+    default:
+      return "unknown";
+  }
+}
+
+function edgeFromGpiod(edge: number): EdgeSetting {
+  switch (edge) {
+    case GPIOD_LINE_EDGE.RISING:
+      return "rising";
+    case GPIOD_LINE_EDGE.FALLING:
+      return "falling";
+    case GPIOD_LINE_EDGE.BOTH:
+      return "both";
+    default:
+      return "none";
+  }
+}
+
+function clockToGpiod(clock: EventClock): GpiodLineClock {
+  switch (clock) {
+    case "monotonic":
+      return GPIOD_LINE_CLOCK.MONOTONIC;
+    case "realtime":
+      return GPIOD_LINE_CLOCK.REALTIME;
+    case "hte":
+      return GPIOD_LINE_CLOCK.HTE;
+    default:
+      return GPIOD_LINE_CLOCK.MONOTONIC;
+  }
+}
+
+function clockFromGpiod(clock: number): EventClock {
+  switch (clock) {
+    case GPIOD_LINE_CLOCK.REALTIME:
+      return "realtime";
+    case GPIOD_LINE_CLOCK.HTE:
+      return "hte";
+    default:
+      return "monotonic";
+  }
+}
+
+function driveToGpiod(drive: DriveSetting): GpiodLineDrive {
+  switch (drive) {
+    case "push-pull":
+      return GPIOD_LINE_DRIVE.PUSH_PULL;
+    case "open-drain":
+      return GPIOD_LINE_DRIVE.OPEN_DRAIN;
+    case "open-source":
+      return GPIOD_LINE_DRIVE.OPEN_SOURCE;
+    default:
+      return GPIOD_LINE_DRIVE.PUSH_PULL;
+  }
+}
+
+function driveFromGpiod(drive: number): DriveSetting {
+  switch (drive) {
+    case GPIOD_LINE_DRIVE.OPEN_DRAIN:
+      return "open-drain";
+    case GPIOD_LINE_DRIVE.OPEN_SOURCE:
+      return "open-source";
+    default:
+      return "push-pull";
+  }
+}
+
+function infoEventTypeFromGpiod(type: number): LineInfoEventType {
+  switch (type) {
+    case GPIOD_INFO_EVENT_TYPE.LINE_REQUESTED:
+      return "requested";
+    case GPIOD_INFO_EVENT_TYPE.LINE_RELEASED:
+      return "released";
+    default:
+      return "reconfigured";
+  }
+}
+
+/** Apply line settings to a libgpiod line settings object */
+function applySettings(
+  lib: Libgpiod,
+  settings: Pointer,
+  lineSettings: LineSettings
+): void {
+  const {
+    direction,
+    outputValue = false,
+    activeLow = false,
+    drive,
+    bias,
+    edge,
+    debouncePeriodUs = 0,
+    clock,
+  } = lineSettings;
+
+  if (direction === "output") {
+    lib.symbols.gpiod_line_settings_set_direction(
+      settings,
+      GPIOD_LINE_DIRECTION.OUTPUT
+    );
+    lib.symbols.gpiod_line_settings_set_output_value(
+      settings,
+      outputValue ? GPIOD_LINE_VALUE.ACTIVE : GPIOD_LINE_VALUE.INACTIVE
+    );
+    lib.symbols.gpiod_line_settings_set_drive(
+      settings,
+      driveToGpiod(drive ?? "push-pull")
+    );
+  } else {
+    lib.symbols.gpiod_line_settings_set_direction(
+      settings,
+      GPIOD_LINE_DIRECTION.INPUT
+    );
+    lib.symbols.gpiod_line_settings_set_edge_detection(
+      settings,
+      edgeToGpiod(edge ?? "none")
+    );
+  }
+  lib.symbols.gpiod_line_settings_set_active_low(settings, activeLow);
+
+  if (bias !== undefined) {
+    lib.symbols.gpiod_line_settings_set_bias(settings, biasToGpiod(bias));
+  }
+
+  if (debouncePeriodUs > 0) {
+    lib.symbols.gpiod_line_settings_set_debounce_period_us(
+      settings,
+      BigInt(debouncePeriodUs)
+    );
+  }
+
+  if (clock !== undefined) {
+    lib.symbols.gpiod_line_settings_set_event_clock(
+      settings,
+      clockToGpiod(clock)
+    );
+  }
+}
+
+/** Convert a libgpiod line info object into a plain snapshot */
+function readLineInfo(lib: Libgpiod, info: Pointer): LineInfo {
+  const direction = lib.symbols.gpiod_line_info_get_direction(info);
+  const nameResult = lib.symbols.gpiod_line_info_get_name(info);
+  const consumerResult = lib.symbols.gpiod_line_info_get_consumer(info);
+
+  return {
+    offset: lib.symbols.gpiod_line_info_get_offset(info),
+    name: nameResult ? String(nameResult) : null,
+    used: lib.symbols.gpiod_line_info_is_used(info),
+    consumer: consumerResult ? String(consumerResult) : null,
+    direction:
+      direction === GPIOD_LINE_DIRECTION.INPUT
+        ? ("input" as const)
+        : ("output" as const),
+    drive: driveFromGpiod(lib.symbols.gpiod_line_info_get_drive(info)),
+    bias: biasFromGpiod(lib.symbols.gpiod_line_info_get_bias(info)),
+    edge: edgeFromGpiod(lib.symbols.gpiod_line_info_get_edge_detection(info)),
+    activeLow: lib.symbols.gpiod_line_info_is_active_low(info),
+    debounced: lib.symbols.gpiod_line_info_is_debounced(info),
+    debouncePeriodUs: Number(
+      lib.symbols.gpiod_line_info_get_debounce_period_us(info)
+    ),
+    eventClock: clockFromGpiod(
+      lib.symbols.gpiod_line_info_get_event_clock(info)
+    ),
+  };
+}
+
+/**
+ * Build a line config object from per-line settings.
+ * The caller must free the result using gpiod_line_config_free.
+ */
+function createLineConfig(
+  lib: Libgpiod,
+  lines: LineRequestConfig["lines"]
+): Pointer {
+  const lineConfig = lib.symbols.gpiod_line_config_new();
+  if (!lineConfig) {
+    throw errorFromErrno("Failed to create line config", {
+      errno: lastErrno(),
+    });
+  }
+
+  for (const { offset, settings: lineSettings } of lines) {
+    // Create settings
+    const settings = lib.symbols.gpiod_line_settings_new();
+    if (!settings) {
+      lib.symbols.gpiod_line_config_free(lineConfig);
+      throw errorFromErrno("Failed to create line settings", {
+        errno: lastErrno(),
+      });
+    }
+
+    applySettings(lib, settings, lineSettings);
+
+    const offsetArray = new Uint32Array([offset]);
+    lib.symbols.gpiod_line_config_add_line_settings(
+      lineConfig,
+      ptr(offsetArray.buffer),
+      1,
+      settings
+    );
+    lib.symbols.gpiod_line_settings_free(settings);
+  }
+
+  return lineConfig;
+}
+
+// =============================================================================
+// Line Request
+// =============================================================================
+
+/**
+ * Lines requested through libgpiod
+ */
+class LibgpiodLineRequest implements LineRequestHandle {
+  private lib: Libgpiod;
+  private request: Pointer;
+  private clocks: Map<number, EventClock> = new Map();
+  private eventBuffer: Pointer | null = null;
+  private eventsCallback: EdgeEventsCallback | null = null;
+  private released: boolean = false;
+
+  constructor(lib: Libgpiod, request: Pointer, config: LineRequestConfig) {
+    this.lib = lib;
+    this.request = request;
+    for (const { offset, settings } of config.lines) {
+      this.clocks.set(offset, settings.clock ?? "monotonic");
+    }
+  }
+
+  getValue(offset: number): boolean {
+    const value = this.lib.symbols.gpiod_line_request_get_value(
+      this.request,
+      offset
+    );
+    if (value < 0) {
+      throw errorFromErrno("Failed to read line", {
+        errno: lastErrno(),
+        pin: offset,
+      });
+    }
+    return value === GPIOD_LINE_VALUE.ACTIVE;
+  }
+
+  getValues(offsets: number[]): boolean[] {
+    const offsetArray = new Uint32Array(offsets);
+    const values = new Int32Array(offsets.length);
+    const result = this.lib.symbols.gpiod_line_request_get_values_subset(
+      this.request,
+      offsets.length,
+      ptr(offsetArray.buffer),
+      ptr(values.buffer)
+    );
+    if (result < 0) {
+      throw errorFromErrno("Failed to read lines", { errno: lastErrno() });
+    }
+    return Array.from(values, (value) => value === GPIOD_LINE_VALUE.ACTIVE);
+  }
+
+  setValue(offset: number, value: boolean): void {
+    const result = this.lib.symbols.gpiod_line_request_set_value(
+      this.request,
+      offset,
+      value ? GPIOD_LINE_VALUE.ACTIVE : GPIOD_LINE_VALUE.INACTIVE
+    );
+    if (result < 0) {
+      throw errorFromErrno("Failed to write line", {
+        errno: lastErrno(),
+        pin: offset,
+      });
+    }
+  }
+
+  setValues(offsets: number[], values: boolean[]): void {
+    const offsetArray = new Uint32Array(offsets);
+    const buffer = new Int32Array(
+      values.map((v) =>
+        v ? GPIOD_LINE_VALUE.ACTIVE : GPIOD_LINE_VALUE.INACTIVE
+      )
+    );
+    const result = this.lib.symbols.gpiod_line_request_set_values_subset(
+      this.request,
+      offsets.length,
+      ptr(offsetArray.buffer),
+      ptr(buffer.buffer)
+    );
+    if (result < 0) {
+      throw errorFromErrno("Failed to write lines", { errno: lastErrno() });
+    }
+  }
+
+  reconfigureLine(offset: number, settings: LineSettings): void {
+    const lineConfig = createLineConfig(this.lib, [{ offset, settings }]);
+    const result = this.lib.symbols.gpiod_line_request_reconfigure_lines(
+      this.request,
+      lineConfig
+    );
+    const errno = lastErrno();
+    this.lib.symbols.gpiod_line_config_free(lineConfig);
+
+    if (result < 0) {
+      throw errorFromErrno("Failed to reconfigure line", {
+        errno,
+        pin: offset,
+      });
+    }
+    // The new settings replace the old ones, so a missing clock is the default
+    this.clocks.set(offset, settings.clock ?? "monotonic");
+  }
+
+  onEdgeEvents(
+    callback: EdgeEventsCallback | null,
+    readBufferSize: number = 16,
+    onError?: ErrorCallback
+  ): void {
+    this.stopEvents();
+    if (!callback || this.released) {
+      return;
+    }
+
+    const buffer = this.lib.symbols.gpiod_edge_event_buffer_new(readBufferSize);
+    if (!buffer) {
+      throw errorFromErrno("Failed to create event buffer", {
+        errno: lastErrno(),
+      });
+    }
+    this.eventBuffer = buffer;
+    this.eventsCallback = callback;
+    getEventPoller().add(
+      this.fd(),
+      () => this.flushEdgeEvents(),
+      (error) => {
+        // The poller has already dropped the fd
+        this.stopEvents();
+        if (!onError) {
+          throw error;
+        }
+        onError(error);
+      }
+    );
+  }
+
+  private fd(): number {
+    return this.lib.symbols.gpiod_line_request_get_fd(this.request);
+  }
+
+  private stopEvents(): void {
+    if (this.eventBuffer) {
+      getEventPoller().remove(this.fd());
+      this.lib.symbols.gpiod_edge_event_buffer_free(this.eventBuffer);
+      this.eventBuffer = null;
+    }
+    this.eventsCallback = null;
+  }
+
+  private readEventFromBuffer(buffer: Pointer, index: number): EdgeEvent {
+    const event = this.lib.symbols.gpiod_edge_event_buffer_get_event(
+      buffer,
+      BigInt(index)
+    );
+
+    const eventType = this.lib.symbols.gpiod_edge_event_get_event_type(event);
+    const timestampNs =
+      this.lib.symbols.gpiod_edge_event_get_timestamp_ns(event);
+    const lineOffset = this.lib.symbols.gpiod_edge_event_get_line_offset(event);
+    const lineSeqno = this.lib.symbols.gpiod_edge_event_get_line_seqno(event);
+    const globalSeqno =
+      this.lib.symbols.gpiod_edge_event_get_global_seqno(event);
+
+    return {
+      type:
+        eventType === GPIOD_EDGE_EVENT_TYPE.RISING_EDGE ? "rising" : "falling",
+      timestampNs,
+      pin: lineOffset,
+      sequence: lineSeqno,
+      globalSequence: globalSeqno,
+      clock: this.clocks.get(lineOffset) ?? "monotonic",
+    };
+  }
+
+  /**
+   * Read every pending event and hand it to the callback
+   */
+  flushEdgeEvents(): void {
+    while (this.eventBuffer && this.eventsCallback) {
+      // Reading would block if the kernel has nothing for us
+      const pending = this.lib.symbols.gpiod_line_request_wait_edge_events(
+        this.request,
+        0n
+      );
+      if (pending <= 0) {
+        return;
+      }
+
+      const buffer = this.eventBuffer;
+      const count = this.lib.symbols.gpiod_line_request_read_edge_events(
+        this.request,
+        buffer,
+        this.lib.symbols.gpiod_edge_event_buffer_get_capacity(buffer)
+      );
+      if (count <= 0) {
+        return;
+      }
+
+      const events: EdgeEvent[] = [];
+      for (let i = 0; i < count; i++) {
+        events.push(this.readEventFromBuffer(buffer, i));
+      }
+      this.eventsCallback(events);
+    }
+  }
+
+  release(): void {
+    if (!this.released) {
+      // Waits for the poller to let go of the fd before it is closed
+      this.stopEvents();
+      this.lib.symbols.gpiod_line_request_release(this.request);
+      this.released = true;
+    }
+  }
+}
+
+// =============================================================================
+// Chip
+// =============================================================================
+
+/**
+ * A chip opened through libgpiod
+ */
+class LibgpiodChip implements ChipHandle {
+  private lib: Libgpiod;
+  private chip: Pointer;
+  private infoCallback: InfoEventCallback | null = null;
+  private infoErrorCallback: ErrorCallback | null = null;
+
+  constructor(lib: Libgpiod, chip: Pointer) {
+    this.lib = lib;
+    this.chip = chip;
+  }
+
+  getInfo(): ChipInfo {
+    const info = this.lib.symbols.gpiod_chip_get_info(this.chip);
+    if (!info) {
+      throw errorFromErrno("Failed to get chip info", { errno: lastErrno() });
+    }
+
+    const nameResult = this.lib.symbols.gpiod_chip_info_get_name(info);
+    const labelResult = this.lib.symbols.gpiod_chip_info_get_label(info);
+    const result = {
+      name: nameResult ? String(nameResult) : null,
+      label: labelResult ? String(labelResult) : null,
+      numLines: Number(this.lib.symbols.gpiod_chip_info_get_num_lines(info)),
+    };
+
+    this.lib.symbols.gpiod_chip_info_free(info);
+    return result;
+  }
+
+  getLineInfo(offset: number): LineInfo {
+    const info = this.lib.symbols.gpiod_chip_get_line_info(this.chip, offset);
+    if (!info) {
+      throw errorFromErrno("Failed to get line info", {
+        errno: lastErrno(),
+        pin: offset,
+      });
+    }
+
+    const result = readLineInfo(this.lib, info);
+    this.lib.symbols.gpiod_line_info_free(info);
+    return result;
+  }
+
+  findLine(name: string): number | null {
+    const offset = this.lib.symbols.gpiod_chip_get_line_offset_from_name(
+      this.chip,
+      cstr(name)
+    );
+    return offset < 0 ? null : offset;
+  }
+
+  watchLineInfo(offset: number): void {
+    const info = this.lib.symbols.gpiod_chip_watch_line_info(this.chip, offset);
+    if (!info) {
+      throw errorFromErrno("Failed to watch line info", {
+        errno: lastErrno(),
+        pin: offset,
+      });
+    }
+    this.lib.symbols.gpiod_line_info_free(info);
+  }
+
+  unwatchLineInfo(offset: number): void {
+    this.lib.symbols.gpiod_chip_unwatch_line_info(this.chip, offset);
+  }
+
+  onInfoEvents(
+    callback: InfoEventCallback | null,
+    onError?: ErrorCallback
+  ): void {
+    const fd = this.lib.symbols.gpiod_chip_get_fd(this.chip);
+    if (callback && !this.infoCallback) {
+      getEventPoller().add(
+        fd,
+        () => this.handleInfoReadable(),
+        (error) => this.handleInfoError(error)
+      );
+    } else if (!callback && this.infoCallback) {
+      getEventPoller().remove(fd);
+    }
+    this.infoCallback = callback;
+    this.infoErrorCallback = callback ? onError ?? null : null;
+  }
+
+  /** The poller stopped watching the chip fd */
+  private handleInfoError(error: Error): void {
+    const onError = this.infoErrorCallback;
+    this.infoCallback = null;
+    this.infoErrorCallback = null;
+    if (!onError) {
+      throw error;
+    }
+    onError(error);
+  }
+
+  /**
+   * Read every pending info event and hand it to the callback
+   */
+  private handleInfoReadable(): void {
+    while (this.infoCallback) {
+      const pending = this.lib.symbols.gpiod_chip_wait_info_event(
+        this.chip,
+        0n
+      );
+      if (pending <= 0) {
+        return;
+      }
+
+      const event = this.lib.symbols.gpiod_chip_read_info_event(this.chip);
+      if (!event) {
+        return;
+      }
+
+      const info = readLineInfo(
+        this.lib,
+        this.lib.symbols.gpiod_info_event_get_line_info(event)!
+      );
+      const type = infoEventTypeFromGpiod(
+        this.lib.symbols.gpiod_info_event_get_event_type(event)
+      );
+      const timestampNs =
+        this.lib.symbols.gpiod_info_event_get_timestamp_ns(event);
+      this.lib.symbols.gpiod_info_event_free(event);
+
+      this.infoCallback({ type, timestampNs, pin: info.offset, info });
+    }
+  }
+
+  requestLines(config: LineRequestConfig): LineRequestHandle {
+    const lineConfig = createLineConfig(this.lib, config.lines);
+
+    // Create request config
+    const reqConfig = this.lib.symbols.gpiod_request_config_new();
+    if (!reqConfig) {
+      this.lib.symbols.gpiod_line_config_free(lineConfig);
+      throw errorFromErrno("Failed to create request config", {
+        errno: lastErrno(),
+      });
+    }
+    this.lib.symbols.gpiod_request_config_set_consumer(
+      reqConfig,
+      cstr(config.consumer)
+    );
+    if (config.eventBufferSize !== undefined) {
+      this.lib.symbols.gpiod_request_config_set_event_buffer_size(
+        reqConfig,
+        config.eventBufferSize
+      );
+    }
+
+    // Request lines
+    const request = this.lib.symbols.gpiod_chip_request_lines(
+      this.chip,
+      reqConfig,
+      lineConfig
+    );
+    const errno = lastErrno();
+
+    // Cleanup config objects
+    this.lib.symbols.gpiod_line_config_free(lineConfig);
+    this.lib.symbols.gpiod_request_config_free(reqConfig);
+
+    if (!request) {
+      throw errorFromErrno("Failed to request lines", { errno });
+    }
+
+    return new LibgpiodLineRequest(this.lib, request, config);
+  }
+
+  close(): void {
+    this.onInfoEvents(null);
+    this.lib.symbols.gpiod_chip_close(this.chip);
+  }
+}
+
+// =============================================================================
+// Backend
+// =============================================================================
+
+/**
+ * Backend for real GPIO chips, using libgpiod v2 through FFI
+ */
+export class LibgpiodBackend implements GPIOBackend {
+  private lib: Libgpiod;
+
+  /**
+   * @param libraryPath Optional path to libgpiod shared library (searched for by default)
+   */
+  constructor(libraryPath?: string) {
+    this.lib = loadLibgpiod(libraryPath);
+  }
+
+  listChips(): string[] {
+    const chipNumber = (entry: string) =>
+      Number(entry.match(/(\d+)$/)?.[1] ?? Number.MAX_SAFE_INTEGER);
+
+    return readdirSync("/dev")
+      .filter((entry) => entry.startsWith("gpiochip"))
+      .sort((a, b) => chipNumber(a) - chipNumber(b))
+      .map((entry) => `/dev/${entry}`)
+      .filter((path) => this.lib.symbols.gpiod_is_gpiochip_device(cstr(path)));
+  }
+
+  openChip(path: string): ChipHandle {
+    const chip = this.lib.symbols.gpiod_chip_open(cstr(path));
+    if (!chip) {
+      throw errorFromErrno("Failed to open chip", {
+        errno: lastErrno(),
+        chip: path,
+      });
+    }
+    return new LibgpiodChip(this.lib, chip);
+  }
+}
@@ -0,0 +1,14 @@
+import { describe, expect, test } from "bun:test";
+import { NotFoundError } from "./errors";
+import { loadLibgpiod } from "./libgpiod";
+
+describe("loadLibgpiod", () => {
+  test("throws NotFoundError when the library cannot be loaded", () => {
+    expect(() => loadLibgpiod("/nonexistent/libgpiod.so.3")).toThrow(
+      NotFoundError
+    );
+    expect(() => loadLibgpiod("/nonexistent/libgpiod.so.3")).toThrow(
+      /Tried:\n {2}\/nonexistent\/libgpiod\.so\.3: /
+    );
+  });
+});
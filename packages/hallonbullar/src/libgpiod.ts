@@ -8,6 +8,8 @@
  */
 
 import { dlopen, ptr, type Pointer } from "bun:ffi";
+import { existsSync } from "fs";
+import { NotFoundError } from "./errors";
 
 // =============================================================================
 // Helper Functions
@@ -82,6 +84,9 @@ export const GPIOD_LINE_DRIVE = {
   OPEN_SOURCE: 3,
 } as const;
 
+export type GpiodLineDrive =
+  (typeof GPIOD_LINE_DRIVE)[keyof typeof GPIOD_LINE_DRIVE];
+
 // =============================================================================
 // Enums - Line Value
 // =============================================================================
@@ -134,17 +139,102 @@ export const GPIOD_LINE_CLOCK = {
   HTE: 3,
 } as const;
 
+export type GpiodLineClock =
+  (typeof GPIOD_LINE_CLOCK)[keyof typeof GPIOD_LINE_CLOCK];
+
 // =============================================================================
 // Library Loading
 // =============================================================================
 
+/** Environment variable that overrides the libgpiod library path */
+export const LIBGPIOD_PATH_ENV = "HALLONBULLAR_LIBGPIOD";
+
+/** Locations searched for libgpiod v2 when no path is given */
+export const LIBGPIOD_SEARCH_PATHS = [
+  // 64-bit Raspberry Pi OS, Debian and Ubuntu
+  "/lib/aarch64-linux-gnu/libgpiod.so.3",
+  "/usr/lib/aarch64-linux-gnu/libgpiod.so.3",
+  // 32-bit Raspberry Pi OS (armhf)
+  "/lib/arm-linux-gnueabihf/libgpiod.so.3",
+  "/usr/lib/arm-linux-gnueabihf/libgpiod.so.3",
+  // x86_64 machines with USB GPIO adapters
+  "/lib/x86_64-linux-gnu/libgpiod.so.3",
+  "/usr/lib/x86_64-linux-gnu/libgpiod.so.3",
+  // Distros without multiarch directories, and source builds
+  "/usr/lib64/libgpiod.so.3",
+  "/usr/lib/libgpiod.so.3",
+  "/lib/libgpiod.so.3",
+  "/usr/local/lib/libgpiod.so.3",
+];
+
+/** Library name resolved by the dynamic linker when no known path exists */
+const LIBGPIOD_SONAME = "libgpiod.so.3";
+
+/** Loaded libraries, shared by every GPIO instance */
+const loadedLibraries: Map<string, Libgpiod> = new Map();
+
+/**
+ * Load the libgpiod library.
+ *
+ * Without an explicit path, the HALLONBULLAR_LIBGPIOD environment variable is
+ * used if set, otherwise the standard library locations are searched. Each
+ * library is only opened once and shared by all callers.
+ *
+ * @param libraryPath Path to the libgpiod shared library (optional)
+ * @throws {NotFoundError} If no library can be loaded or it is not libgpiod v2
+ */
+export function loadLibgpiod(libraryPath?: string): Libgpiod {
+  const override = libraryPath ?? process.env[LIBGPIOD_PATH_ENV];
+  const candidates = override
+    ? [override]
+    : [
+        ...LIBGPIOD_SEARCH_PATHS.filter((path) => existsSync(path)),
+        LIBGPIOD_SONAME,
+      ];
+
+  const failures: string[] = [];
+  for (const candidate of candidates) {
+    const cached = loadedLibraries.get(candidate);
+    if (cached) {
+      return cached;
+    }
+
+    let lib: Libgpiod;
+    try {
+      lib = openLibgpiod(candidate);
+    } catch (error) {
+      failures.push(
+        `  ${candidate}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      continue;
+    }
+
+    const version = String(lib.symbols.gpiod_api_version());
+    if (!version.startsWith("2.")) {
+      lib.close();
+      failures.push(
+        `  ${candidate}: libgpiod ${version} found, v2 is required`
+      );
+      continue;
+    }
+
+    loadedLibraries.set(candidate, lib);
+    return lib;
+  }
+
+  throw new NotFoundError(
+    `Failed to load libgpiod v2. Tried:\n${failures.join("\n")}\n` +
+      `Install libgpiod v2 or set ${LIBGPIOD_PATH_ENV} to the path of libgpiod.so.3`
+  );
+}
+
 /**
- * Load the libgpiod library
- * @param libraryPath Path to the libgpiod shared library (defaults to system library)
+ * Open a libgpiod shared library and bind all symbols
+ * @param libraryPath Path or name of the libgpiod shared library
  */
-export function loadLibgpiod(
-  libraryPath: string = "/lib/aarch64-linux-gnu/libgpiod.so.3"
-) {
+function openLibgpiod(libraryPath: string) {
   return dlopen(libraryPath, {
     // =========================================================================
     // Miscellaneous Functions
@@ -1189,4 +1279,4 @@ export function loadLibgpiod(
 // =============================================================================
 
 /** Type for the loaded libgpiod library */
-export type Libgpiod = ReturnType<typeof loadLibgpiod>;
+export type Libgpiod = ReturnType<typeof openLibgpiod>;
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { GPIO, type GPIOInput, type Pulse } from "./gpio";
+import { GPIOSimulator, type SimulatedChip } from "./gpio-simulator";
+import { InvalidArgumentError } from "./errors";
+import { PulseMeter } from "./pulse-meter";
+import { monotonicNs, VirtualScheduler } from "./scheduler";
+
+const START_NS = 1_000_000_000n;
+const MS = 1_000_000n;
+const PIN = 17;
+
+let scheduler: VirtualScheduler;
+let simChip: SimulatedChip;
+let gpio: GPIO;
+let input: GPIOInput;
+
+beforeEach(() => {
+  scheduler = new VirtualScheduler(START_NS);
+  const sim = new GPIOSimulator({ scheduler });
+  simChip = sim.addChip();
+  gpio = new GPIO(simChip.path, { backend: sim, scheduler });
+  input = gpio.input(PIN, { edge: "both", bias: "pull-down" });
+});
+
+afterEach(() => {
+  gpio.close();
+});
+
+/**
+ * Drive a square wave on the simulated line, advancing the scheduler
+ * @param cycles Number of periods
+ * @param highMs Time high in each period
+ * @param lowMs Time low in each period
+ */
+async function squareWave(
+  cycles: number,
+  highMs: number,
+  lowMs: number
+): Promise<void> {
+  for (let i = 0; i < cycles; i++) {
+    simChip.drive(PIN, true);
+    scheduler.advance(highMs);
+    simChip.drive(PIN, false);
+    scheduler.advance(lowMs);
+    await Bun.sleep(0);
+  }
+}
+
+describe("stats", () => {
+  test("measure widths, frequency and duty cycle", async () => {
+    const meter = new PulseMeter(input, { windowMs: 1000 });
+
+    await squareWave(5, 25, 75);
+
+    expect(meter.stats()).toEqual({
+      count: 5,
+      highNs: 25e6,
+      lowNs: 75e6,
+      minHighNs: 25e6,
+      maxHighNs: 25e6,
+      periodNs: 100e6,
+      frequencyHz: 10,
+      dutyCycle: 0.25,
+    });
+    expect(meter.totalPulses).toBe(5);
+  });
+
+  test("only cover the pulses that ended within the window", async () => {
+    const meter = new PulseMeter(input, { windowMs: 300 });
+
+    await squareWave(10, 50, 50);
+
+    // High pulses that ended in the last 300 ms: at 750, 850 and 950 ms
+    expect(meter.stats().count).toBe(3);
+    expect(meter.totalPulses).toBe(10);
+    expect(meter.stats().frequencyHz).toBe(10);
+  });
+
+  test("drop to zero once the signal stops", async () => {
+    const meter = new PulseMeter(input, { windowMs: 500 });
+    await squareWave(5, 10, 10);
+    expect(meter.stats().frequencyHz).toBe(50);
+
+    // The last complete pulse ended at 90 ms
+    scheduler.advance(490);
+    expect(meter.stats().count).toBe(1);
+
+    scheduler.advance(1);
+    expect(meter.stats()).toMatchObject({
+      count: 0,
+      highNs: null,
+      periodNs: null,
+      frequencyHz: 0,
+      dutyCycle: null,
+    });
+    expect(meter.lastPulse).toBeNull();
+  });
+
+  test("drop to zero for kernel timestamps on the system clock", async () => {
+    const sim = new GPIOSimulator();
+    const chip = sim.addChip();
+    const systemGpio = new GPIO(chip.path, { backend: sim });
+    const tach = systemGpio.input(PIN, { edge: "both", bias: "pull-down" });
+    const meter = new PulseMeter(tach, { windowMs: 20 });
+
+    try {
+      // Stamped like the kernel does, on CLOCK_MONOTONIC
+      const startNs = monotonicNs() - 10n * MS;
+      chip.drive(PIN, true, { timestampNs: startNs });
+      chip.drive(PIN, false, { timestampNs: startNs + 2n * MS });
+      chip.drive(PIN, true, { timestampNs: startNs + 4n * MS });
+      await Bun.sleep(0);
+      expect(meter.stats().count).toBe(1);
+
+      await Bun.sleep(30);
+      expect(meter.stats().count).toBe(0);
+    } finally {
+      systemGpio.close();
+    }
+  });
+});
+
+describe("pulses", () => {
+  test("are reported with their edge timestamps", async () => {
+    const meter = new PulseMeter(input);
+    const pulses: Pulse[] = [];
+    meter.onPulse((pulse) => pulses.push(pulse));
+
+    simChip.drive(PIN, true, { timestampNs: 10n * MS });
+    simChip.drive(PIN, false, { timestampNs: 13n * MS });
+    simChip.drive(PIN, true, { timestampNs: 20n * MS });
+    await Bun.sleep(0);
+
+    expect(pulses).toEqual([
+      {
+        value: true,
+        startNs: 10n * MS,
+        endNs: 13n * MS,
+        widthNs: 3n * MS,
+        precise: true,
+      },
+      {
+        value: false,
+        startNs: 13n * MS,
+        endNs: 20n * MS,
+        widthNs: 7n * MS,
+        precise: true,
+      },
+    ]);
+    expect(meter.lastPulse).toEqual(pulses[1]!);
+  });
+
+  test("are forgotten on reset and no longer measured after close", async () => {
+    const meter = new PulseMeter(input);
+    await squareWave(3, 5, 5);
+
+    meter.reset();
+    expect(meter.totalPulses).toBe(0);
+    expect(meter.stats().count).toBe(0);
+
+    meter.close();
+    await squareWave(3, 5, 5);
+    expect(meter.totalPulses).toBe(0);
+  });
+});
+
+test("requires both edges", () => {
+  const rising = gpio.input(5, { edge: "rising" });
+
+  expect(() => new PulseMeter(rising)).toThrow(InvalidArgumentError);
+});
@@ -0,0 +1,303 @@
+/**
+ * Pulse measurement from edge event timestamps
+ *
+ * A PulseMeter turns the edges of an input into high and low pulses and
+ * reports their widths, the frequency and the duty cycle over a sliding
+ * window. Widths are computed from the kernel timestamps of the edges, so
+ * they do not depend on how late the event loop delivers the events.
+ *
+ * @example
+ * ```typescript
+ * const tach = chip.input(17, { edge: "both", bias: "pull-up" });
+ * const meter = new PulseMeter(tach, { windowMs: 2000 });
+ *
+ * setInterval(() => {
+ *   const { frequencyHz } = meter.stats();
+ *   console.log(`Fan: ${(frequencyHz * 30).toFixed(0)} RPM`); // 2 pulses per turn
+ * }, 1000);
+ * ```
+ */
+
+import type {
+  EdgeCallback,
+  EdgeEvent,
+  GPIOInput,
+  OverflowCallback,
+  Pulse,
+} from "./gpio";
+import {
+  InvalidArgumentError,
+  reportError,
+  type ErrorCallback,
+} from "./errors";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Options for a pulse meter */
+export interface PulseMeterOptions {
+  /** Length of the sliding window in milliseconds (default: 1000) */
+  windowMs?: number;
+}
+
+/** Measurements over the sliding window of a pulse meter */
+export interface PulseStats {
+  /** Number of complete high pulses in the window */
+  count: number;
+  /** Average width of the high pulses in nanoseconds, null if there are none */
+  highNs: number | null;
+  /** Average width of the low pulses in nanoseconds, null if there are none */
+  lowNs: number | null;
+  /** Shortest high pulse in nanoseconds, null if there are none */
+  minHighNs: number | null;
+  /** Longest high pulse in nanoseconds, null if there are none */
+  maxHighNs: number | null;
+  /** Average time from one rising edge to the next, null if unknown */
+  periodNs: number | null;
+  /** Frequency in Hz, 0 if no period was seen in the window */
+  frequencyHz: number;
+  /** Fraction of a period the signal is high, null if unknown */
+  dutyCycle: number | null;
+}
+
+/** Callback for each complete pulse */
+export type PulseCallback = (pulse: Pulse) => void;
+
+// =============================================================================
+// PulseMeter Class
+// =============================================================================
+
+/**
+ * Measures high and low pulses on an input with edge detection on both
+ * edges
+ */
+export class PulseMeter {
+  private readonly input: GPIOInput;
+  private readonly windowNs: bigint;
+  /** Complete pulses, oldest first, trimmed to the window */
+  private pulses: Pulse[] = [];
+  /** Last edge, where the pulse in progress started */
+  private lastEdge: EdgeEvent | null = null;
+  private _totalPulses: number = 0;
+  private _closed: boolean = false;
+  private callbacks: PulseCallback[] = [];
+  private errorCallbacks: ErrorCallback[] = [];
+  private readonly edgeCallback: EdgeCallback;
+  private readonly overflowCallback: OverflowCallback;
+
+  /**
+   * @param input Input to measure, requested with `edge: "both"`
+   * @param options Measurement options
+   * @throws {InvalidArgumentError} If the input does not report both edges
+   */
+  constructor(input: GPIOInput, options: PulseMeterOptions = {}) {
+    const { windowMs = 1000 } = options;
+    if (input.edge !== "both") {
+      throw new InvalidArgumentError(
+        `Pulse measurement on pin ${input.pin} requires edge: "both"`
+      );
+    }
+    if (!(windowMs > 0) || !Number.isFinite(windowMs)) {
+      throw new InvalidArgumentError("Window must be a positive duration");
+    }
+
+    this.input = input;
+    this.windowNs = BigInt(Math.round(windowMs * 1_000_000));
+    this.edgeCallback = (event) => this.handleEdge(event);
+    // Lost events would pair the wrong edges, so start over from the next one
+    this.overflowCallback = () => {
+      this.lastEdge = null;
+    };
+    input.onEdge(this.edgeCallback);
+    input.onOverflow(this.overflowCallback);
+  }
+
+  /** Whether the meter has been closed */
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  /** Number of complete high pulses since the meter was created or reset */
+  get totalPulses(): number {
+    return this._totalPulses;
+  }
+
+  /** Most recent complete pulse, high or low */
+  get lastPulse(): Pulse | null {
+    return this.pulses[this.pulses.length - 1] ?? null;
+  }
+
+  private handleEdge(event: EdgeEvent): void {
+    const previous = this.lastEdge;
+    this.lastEdge = event;
+    // Two edges of the same type mean one in between was missed
+    if (!previous || previous.type === event.type) {
+      return;
+    }
+
+    const pulse: Pulse = {
+      value: previous.type === "rising",
+      startNs: previous.timestampNs,
+      endNs: event.timestampNs,
+      widthNs: event.timestampNs - previous.timestampNs,
+      precise: true,
+    };
+    this.pulses.push(pulse);
+    if (pulse.value) {
+      this._totalPulses++;
+    }
+    this.trim(event.timestampNs);
+
+    for (const callback of [...this.callbacks]) {
+      try {
+        callback(pulse);
+      } catch (err) {
+        reportError(this.errorCallbacks, err);
+      }
+    }
+  }
+
+  /**
+   * Current time on the clock of the edge timestamps. The hardware
+   * timestamp engine cannot be read, so the window then ends at the last edge.
+   */
+  private nowNs(): bigint {
+    return this.input.clockNowNs() ?? this.lastEdge?.timestampNs ?? 0n;
+  }
+
+  /** Drop pulses that ended before the window */
+  private trim(nowNs: bigint): void {
+    const startNs = nowNs - this.windowNs;
+    let index = 0;
+    while (index < this.pulses.length && this.pulses[index]!.endNs < startNs) {
+      index++;
+    }
+    if (index > 0) {
+      this.pulses.splice(0, index);
+    }
+  }
+
+  /**
+   * Measurements over the pulses that ended within the window
+   */
+  stats(): PulseStats {
+    this.trim(this.nowNs());
+
+    let count = 0;
+    let highTotal = 0n;
+    let lowTotal = 0n;
+    let lowCount = 0;
+    let minHigh: bigint | null = null;
+    let maxHigh: bigint | null = null;
+    let firstRising: bigint | null = null;
+    let lastRising: bigint | null = null;
+
+    for (const pulse of this.pulses) {
+      if (pulse.value) {
+        count++;
+        highTotal += pulse.widthNs;
+        if (minHigh === null || pulse.widthNs < minHigh) {
+          minHigh = pulse.widthNs;
+        }
+        if (maxHigh === null || pulse.widthNs > maxHigh) {
+          maxHigh = pulse.widthNs;
+        }
+        firstRising ??= pulse.startNs;
+        lastRising = pulse.startNs;
+      } else {
+        lowCount++;
+        lowTotal += pulse.widthNs;
+      }
+    }
+
+    const highNs = count > 0 ? Number(highTotal) / count : null;
+    const lowNs = lowCount > 0 ? Number(lowTotal) / lowCount : null;
+
+    let periodNs: number | null = null;
+    if (count >= 2) {
+      periodNs = Number(lastRising! - firstRising!) / (count - 1);
+    } else if (highNs !== null && lowNs !== null) {
+      periodNs = highNs + lowNs;
+    }
+
+    return {
+      count,
+      highNs,
+      lowNs,
+      minHighNs: minHigh === null ? null : Number(minHigh),
+      maxHighNs: maxHigh === null ? null : Number(maxHigh),
+      periodNs,
+      frequencyHz: periodNs ? 1e9 / periodNs : 0,
+      // From the averages, so an unpaired pulse at the window start cannot skew it
+      dutyCycle:
+        highNs !== null && lowNs !== null ? highNs / (highNs + lowNs) : null,
+    };
+  }
+
+  /**
+   * Register a callback for each complete pulse, high or low
+   */
+  onPulse(callback: PulseCallback): this {
+    this.callbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Remove a pulse callback
+   */
+  offPulse(callback: PulseCallback): this {
+    const index = this.callbacks.indexOf(callback);
+    if (index !== -1) {
+      this.callbacks.splice(index, 1);
+    }
+    return this;
+  }
+
+  /**
+   * Register a callback for exceptions thrown by pulse callbacks.
+   * Without callbacks, these errors are rethrown as uncaught exceptions.
+   */
+  onError(callback: ErrorCallback): this {
+    this.errorCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Remove an error callback
+   */
+  offError(callback: ErrorCallback): this {
+    const index = this.errorCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.errorCallbacks.splice(index, 1);
+    }
+    return this;
+  }
+
+  /**
+   * Forget every measured pulse and the total count
+   */
+  reset(): this {
+    this.pulses = [];
+    this.lastEdge = null;
+    this._totalPulses = 0;
+    return this;
+  }
+
+  /** Stop measuring. The input stays open. */
+  close(): void {
+    if (this._closed) {
+      return;
+    }
+    this._closed = true;
+    this.input.offEdge(this.edgeCallback);
+    this.input.offOverflow(this.overflowCallback);
+    this.callbacks = [];
+    this.errorCallbacks = [];
+  }
+
+  /** Stop measuring when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+}
@@ -0,0 +1,562 @@
+/**
+ * Worker thread for the PWM simulator
+ *
+ * Services the simulated sysfs directory like the kernel: it watches the
+ * export, unexport and channel attribute files, creates and removes the
+ * channel directories, and checks every value written. PWM.channel() waits
+ * for the channel directory with a blocking sleep, so this has to happen
+ * off the main thread.
+ *
+ * The directory holds plain files, so writes cannot fail in the writer.
+ * Their watch events are queued in the order the writes were made and
+ * serviced once the writer is done with the files: at a sync, and at a
+ * write to export or unexport, which PWM waits on. Each file is then set
+ * back to the kernel's value, and a rejected value is recorded with its
+ * errno instead of being applied.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  watch,
+  writeFileSync,
+  type FSWatcher,
+} from "fs";
+import { join } from "path";
+import type {
+  PWMAttribute,
+  PWMAttributeWrite,
+  PWMChannelState,
+  PWMSimulatorRequest,
+  PWMSimulatorSnapshot,
+  SimulatedPWMChipConfig,
+} from "./pwm-simulator";
+
+declare var self: Worker;
+
+/** State of a single simulated channel */
+interface SimulatedChannel extends PWMChannelState {
+  /** Whether the channel directory has appeared */
+  visible: boolean;
+  watcher: FSWatcher | null;
+}
+
+/** State of a simulated chip */
+interface SimulatedChip extends SimulatedPWMChipConfig {
+  channels: SimulatedChannel[];
+  watcher: FSWatcher;
+  /** Writes since the last snapshot */
+  writes: PWMAttributeWrite[];
+}
+
+/** A file written since the writes were last serviced */
+interface QueuedWrite {
+  chip: SimulatedChip;
+  /** Channel of an attribute, null for the export and unexport files */
+  channel: number | null;
+  attribute: ChannelAttribute | ExportAttribute;
+}
+
+/** Work delayed by a chip option */
+interface DelayedAction {
+  dueNs: bigint;
+  run: () => void;
+}
+
+/** Files of an exported channel */
+const CHANNEL_ATTRIBUTES = [
+  "period",
+  "duty_cycle",
+  "enable",
+  "polarity",
+] as const;
+
+type ChannelAttribute = (typeof CHANNEL_ATTRIBUTES)[number];
+
+type ExportAttribute = "export" | "unexport";
+
+/** Prefix of the files sync requests leave in the root directory */
+const SYNC_FILE = ".sync-";
+
+const chips: SimulatedChip[] = [];
+let delayed: DelayedAction[] = [];
+let delayTimer: ReturnType<typeof setTimeout> | null = null;
+let root = "";
+let queue: QueuedWrite[] = [];
+/** Syncs waiting for the watch event of their file */
+const pendingSyncs: Set<number> = new Set();
+
+/** Time set by the main thread, null while following the system clock */
+let virtualNowNs: bigint | null = null;
+/** Difference between the main thread's clock and ours */
+let offsetNs = 0n;
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Current time on the clock of the simulator's scheduler */
+function nowNs(): bigint {
+  return virtualNowNs ?? process.hrtime.bigint() + offsetNs;
+}
+
+/** Parse an unsigned integer the way the kernel does, or return null */
+function parseUnsigned(value: string): number | null {
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+/** Remove the newline `echo` adds */
+function stripNewline(value: string): string {
+  return value.endsWith("\n") ? value.slice(0, -1) : value;
+}
+
+/**
+ * Replace a file by a new one. A writer that is still truncating the old
+ * file cannot change the new content, and the watchers see a rename rather
+ * than a change, which only writers make.
+ */
+function replaceFile(
+  path: string,
+  content: string,
+  mode: number = statSync(path).mode & 0o777
+): void {
+  const next = `${path}.new`;
+  writeFileSync(next, content, { mode });
+  renameSync(next, path);
+}
+
+/** Read a file as written, or return null if it is gone */
+function readFile(path: string): string | null {
+  try {
+    return readFileSync(path, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+/** Value of an attribute as the kernel shows it */
+function attributeValue(
+  state: PWMChannelState,
+  attribute: ChannelAttribute
+): string {
+  switch (attribute) {
+    case "period":
+      return String(state.periodNs);
+    case "duty_cycle":
+      return String(state.dutyCycleNs);
+    case "enable":
+      return state.enabled ? "1" : "0";
+    case "polarity":
+      return state.polarity;
+  }
+}
+
+/**
+ * Apply a write to a copy of the channel state
+ * @returns The new state, or the errno code the kernel fails the write with
+ */
+function applyWrite(
+  state: PWMChannelState,
+  attribute: ChannelAttribute,
+  value: string
+): PWMChannelState | string {
+  const next: PWMChannelState = { ...state };
+
+  switch (attribute) {
+    case "period":
+    case "duty_cycle": {
+      const ns = parseUnsigned(value);
+      if (ns === null) {
+        return "EINVAL";
+      }
+      if (attribute === "period") {
+        next.periodNs = ns;
+      } else {
+        next.dutyCycleNs = ns;
+      }
+      break;
+    }
+    case "enable":
+      if (value !== "0" && value !== "1") {
+        return "EINVAL";
+      }
+      next.enabled = value === "1";
+      break;
+    case "polarity":
+      if (value !== "normal" && value !== "inversed") {
+        return "EINVAL";
+      }
+      // The polarity can only change while the output is disabled
+      if (state.enabled && value !== state.polarity) {
+        return "EBUSY";
+      }
+      next.polarity = value;
+      break;
+  }
+
+  // Every write applies the whole state, which needs a valid period
+  if (next.periodNs === 0 || next.dutyCycleNs > next.periodNs) {
+    return "EINVAL";
+  }
+  return next;
+}
+
+// =============================================================================
+// Delays
+// =============================================================================
+
+/** Run an action after a delay in milliseconds of simulated time */
+function after(delayMs: number, run: () => void): void {
+  if (delayMs <= 0) {
+    run();
+    return;
+  }
+  delayed.push({ dueNs: nowNs() + BigInt(Math.round(delayMs * 1e6)), run });
+  armDelayTimer();
+}
+
+/** Run the delayed actions that are due */
+function runDelayed(): void {
+  const now = nowNs();
+  const due = delayed.filter((action) => action.dueNs <= now);
+  delayed = delayed.filter((action) => action.dueNs > now);
+  for (const action of due) {
+    action.run();
+  }
+  armDelayTimer();
+}
+
+/** On the system clock, wake up when the next action is due */
+function armDelayTimer(): void {
+  if (virtualNowNs !== null || delayTimer !== null || delayed.length === 0) {
+    return;
+  }
+  const next = delayed.reduce((min, action) =>
+    action.dueNs < min.dueNs ? action : min
+  );
+  const delayMs = Math.max(Number(next.dueNs - nowNs()) / 1e6, 0);
+  delayTimer = setTimeout(() => {
+    delayTimer = null;
+    runDelayed();
+  }, Math.ceil(delayMs));
+}
+
+// =============================================================================
+// Kernel Side
+// =============================================================================
+
+function record(
+  chip: SimulatedChip,
+  channel: number | null,
+  attribute: PWMAttribute,
+  value: string,
+  error?: string
+): void {
+  const write: PWMAttributeWrite = {
+    channel,
+    attribute,
+    value,
+    timestampNs: nowNs(),
+  };
+  if (error !== undefined) {
+    write.error = error;
+  }
+  chip.writes.push(write);
+}
+
+function channelPath(chip: SimulatedChip, channel: number): string {
+  return join(chip.path, `pwm${channel}`);
+}
+
+/**
+ * Check a value written to the export or unexport file
+ * @returns The errno code the kernel fails the write with, or null
+ */
+function exportError(
+  chip: SimulatedChip,
+  attribute: ExportAttribute,
+  value: string
+): string | null {
+  const channel = parseUnsigned(value);
+  if (channel === null) {
+    return "EINVAL";
+  }
+  const state = chip.channels[channel];
+  if (!state) {
+    return "ENODEV";
+  }
+  if (attribute === "export") {
+    return state.exported ? "EBUSY" : null;
+  }
+  return state.exported ? null : "ENODEV";
+}
+
+/** Handle a value written to the export or unexport file */
+function writeExport(
+  chip: SimulatedChip,
+  attribute: ExportAttribute,
+  value: string
+): void {
+  const error = exportError(chip, attribute, value);
+  const channel = parseUnsigned(value);
+  const state = channel === null ? undefined : chip.channels[channel];
+  if (error !== null || channel === null || !state) {
+    record(chip, state ? channel : null, attribute, value, error ?? "EINVAL");
+    return;
+  }
+
+  if (attribute === "export") {
+    Object.assign(state, {
+      exported: true,
+      periodNs: 0,
+      dutyCycleNs: 0,
+      enabled: false,
+      polarity: "normal",
+    });
+    record(chip, channel, attribute, value);
+    after(chip.exportDelayMs, () => createChannel(chip, channel));
+  } else {
+    // The kernel disables the output as it unexports the channel
+    state.exported = false;
+    state.enabled = false;
+    record(chip, channel, attribute, value);
+    removeChannel(chip, channel);
+  }
+}
+
+/** Create the directory of an exported channel */
+function createChannel(chip: SimulatedChip, channel: number): void {
+  const state = chip.channels[channel]!;
+  if (!state.exported || state.visible) {
+    return;
+  }
+
+  // The directory is filled and watched under another name first, so the
+  // writer cannot write to it before the attributes hold their values
+  const path = channelPath(chip, channel);
+  const building = join(chip.path, `.pwm${channel}`);
+  mkdirSync(building);
+  // udev makes the attributes writable for the gpio group a little later
+  const mode = chip.permissionDelayMs > 0 ? 0o444 : 0o664;
+  for (const attribute of CHANNEL_ATTRIBUTES) {
+    writeFileSync(
+      join(building, attribute),
+      `${attributeValue(state, attribute)}\n`,
+      {
+        mode,
+      }
+    );
+  }
+  state.watcher = watch(building, (event, filename) => {
+    const attribute = CHANNEL_ATTRIBUTES.find((name) => name === filename);
+    if (event === "change" && attribute) {
+      queue.push({ chip, channel, attribute });
+    }
+  });
+  renameSync(building, path);
+  state.visible = true;
+
+  if (chip.permissionDelayMs > 0) {
+    after(chip.permissionDelayMs, () => {
+      if (state.visible) {
+        for (const attribute of CHANNEL_ATTRIBUTES) {
+          const file = join(path, attribute);
+          replaceFile(file, readFile(file) ?? "", 0o664);
+        }
+      }
+    });
+  }
+}
+
+function removeChannel(chip: SimulatedChip, channel: number): void {
+  const state = chip.channels[channel]!;
+  state.watcher?.close();
+  state.watcher = null;
+  state.visible = false;
+  rmSync(channelPath(chip, channel), { recursive: true, force: true });
+}
+
+/**
+ * Service a write to an attribute of a channel and show the kernel's value
+ * again. The file then ends with a newline, which the writes of PWM do not,
+ * so a write that leaves the value unchanged is still seen.
+ */
+function checkAttribute(
+  chip: SimulatedChip,
+  channel: number,
+  attribute: ChannelAttribute
+): void {
+  const state = chip.channels[channel]!;
+  const path = join(channelPath(chip, channel), attribute);
+  const content = state.visible ? readFile(path) : null;
+  // An empty file is a write caught between truncation and data
+  if (!content || content === `${attributeValue(state, attribute)}\n`) {
+    return;
+  }
+
+  const value = stripNewline(content);
+  const next = applyWrite(state, attribute, value);
+  if (typeof next === "string") {
+    record(chip, channel, attribute, value, next);
+  } else {
+    Object.assign(state, next);
+    record(chip, channel, attribute, value);
+  }
+  replaceFile(path, `${attributeValue(state, attribute)}\n`);
+}
+
+/**
+ * Service a write to the export or unexport file. The file is emptied, so
+ * the next write of the same channel is seen again.
+ */
+function checkExport(chip: SimulatedChip, attribute: ExportAttribute): void {
+  const path = join(chip.path, attribute);
+  const value = stripNewline(readFile(path) ?? "");
+  if (value) {
+    replaceFile(path, "");
+    writeExport(chip, attribute, value);
+  }
+}
+
+/**
+ * Service the queued writes in the order they were made. A file written
+ * more than once only holds its last value, so it is serviced in the place
+ * of its last write.
+ */
+function service(): void {
+  const writes = queue;
+  queue = [];
+  const key = (write: QueuedWrite) =>
+    `${write.chip.path}/${write.channel}/${write.attribute}`;
+  const last = writes.filter(
+    (write, index) =>
+      !writes.slice(index + 1).some((later) => key(later) === key(write))
+  );
+  for (const { chip, channel, attribute } of last) {
+    if (channel === null) {
+      checkExport(chip, attribute as ExportAttribute);
+    } else {
+      checkAttribute(chip, channel, attribute as ChannelAttribute);
+    }
+  }
+}
+
+/**
+ * Service writes whose watch events have not arrived. The events of every
+ * write made before a sync come ahead of the event of its file, so this
+ * only catches up on files the watchers missed.
+ */
+function scan(): void {
+  for (const chip of chips) {
+    // Attribute writes come before an unexport that removes the files
+    chip.channels.forEach((state, channel) => {
+      if (state.visible && existsSync(channelPath(chip, channel))) {
+        for (const attribute of CHANNEL_ATTRIBUTES) {
+          checkAttribute(chip, channel, attribute);
+        }
+      }
+    });
+    checkExport(chip, "export");
+    checkExport(chip, "unexport");
+  }
+}
+
+function addChip(config: SimulatedPWMChipConfig): void {
+  const chip: SimulatedChip = {
+    ...config,
+    channels: Array.from({ length: config.npwm }, () => ({
+      exported: false,
+      periodNs: 0,
+      dutyCycleNs: 0,
+      enabled: false,
+      polarity: "normal",
+      visible: false,
+      watcher: null,
+    })),
+    watcher: watch(config.path, (event, filename) => {
+      if (
+        event === "change" &&
+        (filename === "export" || filename === "unexport")
+      ) {
+        queue.push({ chip, channel: null, attribute: filename });
+        service();
+      }
+    }),
+    writes: [],
+  };
+  chips.push(chip);
+}
+
+/** Channel states and the writes since the last snapshot */
+function snapshot(): PWMSimulatorSnapshot[] {
+  return chips.map((chip) => {
+    const writes = chip.writes;
+    chip.writes = [];
+    return {
+      path: chip.path,
+      channels: chip.channels.map(
+        ({ exported, periodNs, dutyCycleNs, enabled, polarity }) => ({
+          exported,
+          periodNs,
+          dutyCycleNs,
+          enabled,
+          polarity,
+        })
+      ),
+      writes,
+    };
+  });
+}
+
+/** Answer a sync once the watch events of earlier writes were serviced */
+function finishSync(id: number): void {
+  if (!pendingSyncs.delete(id)) {
+    return;
+  }
+  rmSync(join(root, `${SYNC_FILE}${id}`), { force: true });
+  service();
+  scan();
+  runDelayed();
+  self.postMessage({ id, chips: snapshot() });
+}
+
+self.onmessage = (event: MessageEvent<PWMSimulatorRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "start":
+      if (request.virtual) {
+        virtualNowNs = request.nowNs;
+      } else {
+        offsetNs = request.nowNs - process.hrtime.bigint();
+      }
+      root = request.root;
+      watch(root, (_event, filename) => {
+        if (typeof filename === "string" && filename.startsWith(SYNC_FILE)) {
+          finishSync(Number(filename.slice(SYNC_FILE.length)));
+        }
+      });
+      break;
+    case "add-chip":
+      addChip(request.chip);
+      scan();
+      break;
+    case "export": {
+      const chip = chips.find((candidate) => candidate.path === request.chip);
+      if (chip) {
+        writeExport(chip, "export", String(request.channel));
+      }
+      break;
+    }
+    case "sync":
+      if (virtualNowNs !== null) {
+        virtualNowNs = request.nowNs;
+      }
+      pendingSyncs.add(request.id);
+      writeFileSync(join(root, `${SYNC_FILE}${request.id}`), "");
+      break;
+  }
+};
@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { PWM } from "./pwm";
+import { PWMSimulator, type SimulatedPWMChip } from "./pwm-simulator";
+import { VirtualScheduler } from "./scheduler";
+
+let sim: PWMSimulator;
+let simChip: SimulatedPWMChip;
+let pwm: PWM;
+
+beforeEach(() => {
+  sim = new PWMSimulator();
+  simChip = sim.addChip({ npwm: 2 });
+  pwm = new PWM(simChip.path);
+});
+
+afterEach(() => {
+  pwm.close();
+  sim.close();
+});
+
+/** Summarize writes for comparison */
+function writes(chip: SimulatedPWMChip, channel?: number) {
+  return chip
+    .history(channel)
+    .map(({ attribute, value, error }) => [attribute, value, error]);
+}
+
+describe("channels", () => {
+  test("are exported and configured through the directory", async () => {
+    pwm.channel(0, { frequencyHz: 1000, dutyCycle: 0.25 });
+    await sim.sync();
+
+    expect(simChip.state(0)).toEqual({
+      exported: true,
+      periodNs: 1_000_000,
+      dutyCycleNs: 250_000,
+      enabled: true,
+      polarity: "normal",
+    });
+    expect(writes(simChip, 0)).toEqual([
+      ["export", "0", undefined],
+      ["period", "1000000", undefined],
+      ["duty_cycle", "250000", undefined],
+      ["enable", "1", undefined],
+    ]);
+    expect(simChip.state(1).exported).toBe(false);
+  });
+
+  test("follow later changes", async () => {
+    const channel = pwm.channel(1, { frequencyHz: 1000, dutyCycle: 0.5 });
+    await sim.sync();
+    simChip.clearHistory();
+
+    channel.setDutyCycle(0.75);
+    await sim.sync();
+
+    expect(simChip.state(1).dutyCycleNs).toBe(750_000);
+    expect(writes(simChip)).toEqual([["duty_cycle", "750000", undefined]]);
+  });
+});
+
+describe("export", () => {
+  test("of an exported channel fails with EBUSY", async () => {
+    simChip.exportChannel(0);
+    await sim.sync();
+    simChip.exportChannel(0);
+    await sim.sync();
+
+    expect(writes(simChip, 0)).toEqual([
+      ["export", "0", undefined],
+      ["export", "0", "EBUSY"],
+    ]);
+    expect(simChip.state(0).exported).toBe(true);
+  });
+
+  test("is serviced for every call between syncs", async () => {
+    simChip.exportChannel(1).exportChannel(1);
+    await sim.sync();
+
+    expect(writes(simChip, 1)).toEqual([
+      ["export", "1", undefined],
+      ["export", "1", "EBUSY"],
+    ]);
+  });
+
+  test("of a missing channel fails with ENODEV", async () => {
+    simChip.exportChannel(2);
+    await sim.sync();
+
+    expect(simChip.history()).toMatchObject([
+      { channel: null, attribute: "export", value: "2", error: "ENODEV" },
+    ]);
+  });
+});
+
+describe("attributes", () => {
+  test("reject a duty cycle longer than the period with EINVAL", async () => {
+    pwm.channel(0, { frequencyHz: 1000, dutyCycle: 0.5 });
+    await sim.sync();
+    simChip.clearHistory();
+
+    const dutyCyclePath = join(simChip.path, "pwm0", "duty_cycle");
+    writeFileSync(dutyCyclePath, "2000000");
+    await sim.sync();
+
+    expect(writes(simChip, 0)).toEqual([["duty_cycle", "2000000", "EINVAL"]]);
+    expect(simChip.state(0).dutyCycleNs).toBe(500_000);
+    expect(readFileSync(dutyCyclePath, "utf8")).toBe("500000\n");
+  });
+
+  test("are checked in the order they were made", async () => {
+    pwm.channel(0, { frequencyHz: 1000, dutyCycle: 0.5 });
+    await sim.sync();
+    simChip.clearHistory();
+
+    // The duty cycle only fits the period written after it
+    writeFileSync(join(simChip.path, "pwm0", "duty_cycle"), "3000000");
+    writeFileSync(join(simChip.path, "pwm0", "period"), "4000000");
+    await sim.sync();
+
+    expect(writes(simChip, 0)).toEqual([
+      ["duty_cycle", "3000000", "EINVAL"],
+      ["period", "4000000", undefined],
+    ]);
+    expect(simChip.state(0)).toMatchObject({
+      periodNs: 4_000_000,
+      dutyCycleNs: 500_000,
+    });
+  });
+
+  test("are seen when they leave the value unchanged", async () => {
+    const channel = pwm.channel(0, { frequencyHz: 1000, dutyCycle: 0.5 });
+    await sim.sync();
+    simChip.clearHistory();
+
+    channel.setDutyCycle(0.5).setDutyCycle(0.5);
+    await sim.sync();
+
+    expect(writes(simChip, 0)).toContainEqual([
+      "duty_cycle",
+      "500000",
+      undefined,
+    ]);
+    expect(readFileSync(join(simChip.path, "pwm0", "duty_cycle"), "utf8")).toBe(
+      "500000\n"
+    );
+  });
+
+  test("reject a polarity change while enabled with EBUSY", async () => {
+    pwm.channel(0, { frequencyHz: 1000 });
+    await sim.sync();
+
+    writeFileSync(join(simChip.path, "pwm0", "polarity"), "inversed");
+    await sim.sync();
+
+    expect(writes(simChip, 0).at(-1)).toEqual([
+      "polarity",
+      "inversed",
+      "EBUSY",
+    ]);
+    expect(simChip.state(0).polarity).toBe("normal");
+  });
+});
+
+describe("unexport", () => {
+  test("disables the channel and removes its directory", async () => {
+    const channel = pwm.channel(0, { frequencyHz: 1000, dutyCycle: 0.5 });
+    await sim.sync();
+    simChip.clearHistory();
+
+    channel.close();
+    await sim.sync();
+
+    expect(simChip.state(0)).toMatchObject({ exported: false, enabled: false });
+    expect(existsSync(join(simChip.path, "pwm0"))).toBe(false);
+    expect(writes(simChip, 0)).toContainEqual(["unexport", "0", undefined]);
+  });
+
+  test("of a channel that is not exported fails with ENODEV", async () => {
+    writeFileSync(join(simChip.path, "unexport"), "1");
+    await sim.sync();
+
+    expect(writes(simChip, 1)).toEqual([["unexport", "1", "ENODEV"]]);
+  });
+});
+
+describe("delays", () => {
+  test("elapse on the scheduler of the simulator", async () => {
+    const scheduler = new VirtualScheduler(0n);
+    const virtualSim = new PWMSimulator({ scheduler });
+    const chip = virtualSim.addChip({ exportDelayMs: 20 });
+    const channelPath = join(chip.path, "pwm0");
+
+    try {
+      chip.exportChannel(0);
+      await virtualSim.sync();
+      expect(chip.state(0).exported).toBe(true);
+      expect(existsSync(channelPath)).toBe(false);
+
+      scheduler.advance(20);
+      await virtualSim.sync();
+      expect(existsSync(channelPath)).toBe(true);
+      expect(chip.history(0)[0]!.timestampNs).toBe(0n);
+    } finally {
+      virtualSim.close();
+    }
+  });
+});
+
+describe("close", () => {
+  test("removes the directory and rejects later syncs", () => {
+    sim.close();
+
+    expect(existsSync(sim.root)).toBe(false);
+    expect(() => sim.sync()).toThrow("closed");
+  });
+});
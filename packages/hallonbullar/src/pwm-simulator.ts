@@ -0,0 +1,440 @@
+/**
+ * Simulated sysfs PWM chips for testing without hardware
+ *
+ * The simulator creates a temporary directory laid out like
+ * /sys/class/pwm. A worker thread services it like the kernel: it creates
+ * the channel directory after an export and checks every value PWM and
+ * PWMChannel write with the same rules: exporting twice fails with EBUSY,
+ * the duty cycle may not exceed the period and the polarity can only change
+ * while the channel is disabled. It can also delay the channel directory and
+ * its permissions, like the kernel and udev do on a real system.
+ *
+ * The directory holds plain files, so writes never fail in the writer. The
+ * worker services them in the order they were made, puts the previous value
+ * back for a write the kernel rejects, and records it with the errno the
+ * kernel would have failed it with. sync() waits until the worker has
+ * serviced every write made so far and fetches the channel states and
+ * writes; state() and history() show them as of the last sync.
+ *
+ * Several writes to one file before the next sync, or the next write to
+ * export or unexport, are seen as the last of them. Writing the value a
+ * file shows, trailing newline included, is not seen at all.
+ *
+ * @example
+ * ```typescript
+ * using sim = new PWMSimulator();
+ * const simChip = sim.addChip({ npwm: 2 });
+ *
+ * const pwm = new PWM(simChip.path);
+ * const led = pwm.channel(0, { frequencyHz: 1000, dutyCycle: 0.25 });
+ *
+ * await sim.sync();
+ * simChip.state(0); // { exported: true, periodNs: 1000000, dutyCycleNs: 250000, ... }
+ * ```
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ClosedError, InvalidArgumentError, NotFoundError } from "./errors";
+import { systemScheduler, type Scheduler } from "./scheduler";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Options for the PWM simulator */
+export interface PWMSimulatorOptions {
+  /**
+   * Clock for timestamps and the delays of the chips (default: the system
+   * scheduler). Other schedulers only move the simulator at sync().
+   */
+  scheduler?: Scheduler;
+}
+
+/** Options for a simulated PWM chip */
+export interface SimulatedPWMChipOptions {
+  /** Number of channels (default: 2) */
+  npwm?: number;
+  /** Time until the channel directory appears after an export (default: 0) */
+  exportDelayMs?: number;
+  /** Time until udev makes the channel attributes writable (default: 0) */
+  permissionDelayMs?: number;
+  /** Whether the export file is writable by the current user (default: true) */
+  writable?: boolean;
+}
+
+/** Polarity of a PWM signal */
+export type PWMPolarity = "normal" | "inversed";
+
+/** State of a simulated PWM channel */
+export interface PWMChannelState {
+  /** Whether the channel is exported */
+  exported: boolean;
+  /** Period in nanoseconds */
+  periodNs: number;
+  /** Duty cycle in nanoseconds */
+  dutyCycleNs: number;
+  /** Whether the output is enabled */
+  enabled: boolean;
+  /** Signal polarity */
+  polarity: PWMPolarity;
+}
+
+/** Attribute written to a simulated PWM chip */
+export type PWMAttribute =
+  | "export"
+  | "unexport"
+  | "period"
+  | "duty_cycle"
+  | "enable"
+  | "polarity";
+
+/** A write serviced by a simulated PWM chip */
+export interface PWMAttributeWrite {
+  /** Channel written to, null for export values that name no channel */
+  channel: number | null;
+  /** Attribute that was written */
+  attribute: PWMAttribute;
+  /** Value as written, without a trailing newline */
+  value: string;
+  /** Time the write was serviced in nanoseconds, read from the scheduler */
+  timestampNs: bigint;
+  /** errno code the kernel rejects the write with, e.g. "EINVAL" */
+  error?: string;
+}
+
+/**
+ * Chip as the worker needs to know it
+ * @internal
+ */
+export interface SimulatedPWMChipConfig {
+  path: string;
+  npwm: number;
+  exportDelayMs: number;
+  permissionDelayMs: number;
+}
+
+/**
+ * Message from the main thread to the worker
+ * @internal
+ */
+export type PWMSimulatorRequest =
+  | { type: "start"; nowNs: bigint; virtual: boolean; root: string }
+  | { type: "add-chip"; chip: SimulatedPWMChipConfig }
+  | { type: "export"; chip: string; channel: number }
+  | { type: "sync"; id: number; nowNs: bigint };
+
+/**
+ * Channel states of a chip and the writes since the previous sync
+ * @internal
+ */
+export interface PWMSimulatorSnapshot {
+  path: string;
+  channels: PWMChannelState[];
+  writes: PWMAttributeWrite[];
+}
+
+/** Message from the worker once it serviced the writes */
+interface PWMSimulatorSyncResult {
+  id: number;
+  chips: PWMSimulatorSnapshot[];
+}
+
+/** sync() waiting for the worker */
+interface PendingSync {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// =============================================================================
+// Simulated Chip
+// =============================================================================
+
+/**
+ * A simulated sysfs PWM chip.
+ * The methods below inspect what the application did to its channels and
+ * act on behalf of other processes.
+ */
+export class SimulatedPWMChip {
+  private _path: string;
+  private _npwm: number;
+  private channels: PWMChannelState[];
+  private writes: PWMAttributeWrite[] = [];
+  private post: (request: PWMSimulatorRequest) => void;
+
+  /** @internal */
+  constructor(
+    path: string,
+    npwm: number,
+    writable: boolean,
+    post: (request: PWMSimulatorRequest) => void
+  ) {
+    this._path = path;
+    this.post = post;
+    this._npwm = npwm;
+    this.channels = Array.from({ length: npwm }, () => ({
+      exported: false,
+      periodNs: 0,
+      dutyCycleNs: 0,
+      enabled: false,
+      polarity: "normal",
+    }));
+
+    mkdirSync(path);
+    writeFileSync(join(path, "npwm"), `${npwm}\n`, { mode: 0o444 });
+    const mode = writable ? 0o644 : 0o444;
+    writeFileSync(join(path, "export"), "", { mode });
+    writeFileSync(join(path, "unexport"), "", { mode });
+  }
+
+  /** Path of the chip directory, to pass to `new PWM()` */
+  get path(): string {
+    return this._path;
+  }
+
+  /** Number of channels */
+  get npwm(): number {
+    return this._npwm;
+  }
+
+  /**
+   * State of a channel as of the last sync
+   * @param channel Channel number
+   */
+  state(channel: number): PWMChannelState {
+    return { ...this.channel(channel) };
+  }
+
+  /**
+   * Writes serviced up to the last sync, oldest first. Rejected writes
+   * carry the errno code in `error`.
+   * @param channel Channel to list (default: every write to the chip)
+   */
+  history(channel?: number): readonly PWMAttributeWrite[] {
+    if (channel === undefined) {
+      return this.writes;
+    }
+    this.channel(channel);
+    return this.writes.filter((write) => write.channel === channel);
+  }
+
+  /**
+   * Forget recorded writes
+   * @param channel Channel to clear (default: all writes)
+   */
+  clearHistory(channel?: number): this {
+    if (channel === undefined) {
+      this.writes = [];
+    } else {
+      this.channel(channel);
+      this.writes = this.writes.filter((write) => write.channel !== channel);
+    }
+    return this;
+  }
+
+  /**
+   * Export a channel on behalf of another process. Every call reaches the
+   * worker, even several between two syncs.
+   * @param channel Channel number
+   */
+  exportChannel(channel: number): this {
+    this.post({ type: "export", chip: this._path, channel });
+    return this;
+  }
+
+  /** @internal */
+  update(snapshot: PWMSimulatorSnapshot): void {
+    this.channels = snapshot.channels;
+    this.writes.push(...snapshot.writes);
+  }
+
+  private channel(channel: number): PWMChannelState {
+    const state = Number.isInteger(channel)
+      ? this.channels[channel]
+      : undefined;
+    if (!state) {
+      throw new InvalidArgumentError(
+        `Channel ${channel} does not exist (npwm is ${this._npwm})`,
+        { channel, chip: this._path }
+      );
+    }
+    return state;
+  }
+}
+
+// =============================================================================
+// Simulator
+// =============================================================================
+
+/**
+ * A temporary directory of simulated PWM chips, laid out like
+ * /sys/class/pwm. Close it to stop the worker and remove the directory.
+ *
+ * The files carry the modes udev would give them, which only keeps a
+ * non-root process out: root can write to the channel attributes before
+ * permissionDelayMs ends, and to the export file of a chip that is not
+ * writable.
+ *
+ * With a scheduler other than the system scheduler, the delays of the chips
+ * only elapse when sync() passes the scheduler's time to the worker. As
+ * PWM.channel() waits for the channel directory on the system clock, an
+ * exportDelayMs makes it time out; export with exportChannel() instead.
+ */
+export class PWMSimulator {
+  private _root: string;
+  private scheduler: Scheduler;
+  private worker: Worker;
+  private chips: SimulatedPWMChip[] = [];
+  private pending: Map<number, PendingSync> = new Map();
+  private nextSyncId = 0;
+  private failure: Error | null = null;
+  private _closed: boolean = false;
+
+  constructor(options: PWMSimulatorOptions = {}) {
+    this.scheduler = options.scheduler ?? systemScheduler;
+    this._root = mkdtempSync(join(tmpdir(), "hallonbullar-pwm-"));
+
+    this.worker = new Worker(
+      new URL("./pwm-simulator-worker.ts", import.meta.url).href
+    );
+    this.worker.onmessage = (event: MessageEvent<PWMSimulatorSyncResult>) =>
+      this.handleSync(event.data);
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.fail(new Error(`PWM simulator worker failed: ${event.message}`));
+    };
+    this.worker.unref();
+    this.post({
+      type: "start",
+      nowNs: this.scheduler.nowNs(),
+      virtual: this.scheduler !== systemScheduler,
+      root: this._root,
+    });
+  }
+
+  /** Directory holding the chips, like /sys/class/pwm */
+  get root(): string {
+    return this._root;
+  }
+
+  /** Check if the simulator has been closed */
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  private checkClosed(): void {
+    if (this._closed) {
+      throw new ClosedError("PWM simulator is closed");
+    }
+  }
+
+  /**
+   * Add a chip, named pwmchipN in order of creation
+   * @param options Channel count and timing of the chip
+   */
+  addChip(options: SimulatedPWMChipOptions = {}): SimulatedPWMChip {
+    this.checkClosed();
+    const {
+      npwm = 2,
+      exportDelayMs = 0,
+      permissionDelayMs = 0,
+      writable = true,
+    } = options;
+
+    const path = join(this._root, `pwmchip${this.chips.length}`);
+    const chip = new SimulatedPWMChip(path, npwm, writable, (request) =>
+      this.post(request)
+    );
+    this.chips.push(chip);
+    this.post({
+      type: "add-chip",
+      chip: { path, npwm, exportDelayMs, permissionDelayMs },
+    });
+    return chip;
+  }
+
+  /**
+   * Get a simulated chip by path
+   * @param path Path of the chip directory
+   */
+  chip(path: string): SimulatedPWMChip {
+    const chip = this.chips.find((candidate) => candidate.path === path);
+    if (!chip) {
+      throw new NotFoundError(`No simulated PWM chip at ${path}`, {
+        chip: path,
+      });
+    }
+    return chip;
+  }
+
+  /**
+   * Service every write made so far, run the delays that fell due on the
+   * scheduler, and update state() and history() of every chip
+   * @throws {ClosedError} If the simulator is closed first
+   */
+  sync(): Promise<void> {
+    this.checkClosed();
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    const id = this.nextSyncId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.ref();
+      this.post({ type: "sync", id, nowNs: this.scheduler.nowNs() });
+    });
+  }
+
+  private post(request: PWMSimulatorRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  private handleSync(result: PWMSimulatorSyncResult): void {
+    for (const snapshot of result.chips) {
+      this.chip(snapshot.path).update(snapshot);
+    }
+    this.settle(result.id);
+  }
+
+  /** Resolve or reject a sync, letting the process exit once none is left */
+  private settle(id: number, error?: Error): void {
+    const sync = this.pending.get(id);
+    this.pending.delete(id);
+    if (this.pending.size === 0) {
+      this.worker.unref();
+    }
+    if (error) {
+      sync?.reject(error);
+    } else {
+      sync?.resolve();
+    }
+  }
+
+  /** Reject every pending and future sync */
+  private fail(error: Error): void {
+    this.failure = error;
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, error);
+    }
+  }
+
+  /**
+   * Stop the worker and remove the directory. Pending syncs reject with a
+   * ClosedError. Calling close() again has no effect.
+   */
+  close(): void {
+    if (!this._closed) {
+      this._closed = true;
+      this.worker.terminate();
+      this.fail(new ClosedError("PWM simulator was closed"));
+      rmSync(this._root, { recursive: true, force: true });
+    }
+  }
+
+  /** Close when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+}
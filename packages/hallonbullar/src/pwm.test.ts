@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import * as fs from "fs";
+import { constants } from "os";
+import { join } from "path";
+import { InvalidArgumentError, LineBusyError } from "./errors";
+import { PWM } from "./pwm";
+import { PWMSimulator, type SimulatedPWMChip } from "./pwm-simulator";
+
+let sim: PWMSimulator;
+let simChip: SimulatedPWMChip;
+let pwm: PWM;
+
+beforeEach(() => {
+  sim = new PWMSimulator();
+  simChip = sim.addChip({ npwm: 2 });
+  pwm = new PWM(simChip.path);
+});
+
+afterEach(() => {
+  pwm.close();
+  sim.close();
+});
+
+/** Summarize writes for comparison */
+function writes(channel: number) {
+  return simChip
+    .history(channel)
+    .map(({ attribute, value, error }) => [attribute, value, error]);
+}
+
+/**
+ * Fail writes to a file of the chip with an errno, as the kernel does.
+ * The simulator only records rejected writes, as the writes to its plain
+ * files cannot fail.
+ * @param file Path relative to the chip directory
+ * @param code errno code, e.g. "EINVAL"
+ */
+function rejectWrites(file: string, code: keyof typeof constants.errno) {
+  const path = join(simChip.path, file);
+  const writeFileSync = fs.writeFileSync;
+  return spyOn(fs, "writeFileSync").mockImplementation(((
+    target: fs.PathOrFileDescriptor,
+    ...args: [string, fs.WriteFileOptions?]
+  ) => {
+    if (target === path) {
+      throw Object.assign(new Error(`${code}: write '${path}'`), {
+        code,
+        errno: -constants.errno[code],
+        syscall: "write",
+        path,
+      });
+    }
+    writeFileSync(target, ...args);
+  }) as typeof fs.writeFileSync);
+}
+
+describe("PWM.channel", () => {
+  test("reuses a channel exported by another process", async () => {
+    simChip.exportChannel(0);
+    await sim.sync();
+
+    const rejected = rejectWrites("export", "EBUSY");
+    try {
+      pwm.channel(0, { frequencyHz: 500 });
+    } finally {
+      rejected.mockRestore();
+    }
+    await sim.sync();
+
+    // The duty cycle written before the period merges with the later one
+    expect(writes(0)).toEqual([
+      ["export", "0", undefined],
+      ["period", "2000000", undefined],
+      ["duty_cycle", "1000000", undefined],
+      ["enable", "1", undefined],
+    ]);
+  });
+
+  test("unexports the channel when setting the period fails", async () => {
+    const rejected = rejectWrites("pwm0/period", "EINVAL");
+    try {
+      expect(() => pwm.channel(0)).toThrow(InvalidArgumentError);
+    } finally {
+      rejected.mockRestore();
+    }
+    await sim.sync();
+
+    expect(writes(0)).toEqual([
+      ["export", "0", undefined],
+      ["unexport", "0", undefined],
+    ]);
+    expect(simChip.state(0).exported).toBe(false);
+
+    // The channel can be requested again
+    pwm.channel(0);
+    await sim.sync();
+    expect(simChip.state(0).enabled).toBe(true);
+  });
+
+  test("unexports the channel when enabling it fails", async () => {
+    const rejected = rejectWrites("pwm1/enable", "EBUSY");
+    try {
+      expect(() => pwm.channel(1, { frequencyHz: 1000 })).toThrow(
+        LineBusyError
+      );
+    } finally {
+      rejected.mockRestore();
+    }
+    await sim.sync();
+
+    expect(writes(1).at(-1)).toEqual(["unexport", "1", undefined]);
+    expect(simChip.state(1)).toMatchObject({ exported: false, enabled: false });
+  });
+});
+
+describe("PWMChannel.setFrequency", () => {
+  test("writes the period and duty cycle in the order the kernel needs", async () => {
+    const channel = pwm.channel(0, { frequencyHz: 1000, dutyCycle: 0.75 });
+    await sim.sync();
+    simChip.clearHistory();
+
+    channel.setFrequency(250);
+    await sim.sync();
+    channel.setFrequency(2000);
+    await sim.sync();
+
+    expect(writes(0)).toEqual([
+      ["period", "4000000", undefined],
+      ["duty_cycle", "3000000", undefined],
+      ["duty_cycle", "375000", undefined],
+      ["period", "500000", undefined],
+    ]);
+    expect(simChip.state(0)).toMatchObject({
+      periodNs: 500_000,
+      dutyCycleNs: 375_000,
+    });
+  });
+});
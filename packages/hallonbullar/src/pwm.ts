@@ -21,6 +21,17 @@
 
 import { existsSync, writeFileSync as fsWriteFileSync } from "fs";
 import { accessSync, constants } from "fs";
+import { constants as osConstants } from "os";
+import { trackResource, untrackResource } from "./shutdown";
+import {
+  ClosedError,
+  InvalidArgumentError,
+  LineBusyError,
+  NotFoundError,
+  PermissionError,
+  errorFromFsError,
+  type ErrorDetails,
+} from "./errors";
 
 // =============================================================================
 // Types
@@ -32,6 +43,11 @@ export interface PWMChannelOptions {
   frequencyHz?: number;
   /** Initial duty cycle (0-1) */
   dutyCycle?: number;
+  /**
+   * Duty cycle (0-1) to set on shutdown (see enableSafeShutdown()).
+   * Ignored by SoftwarePWM, which turns its output off.
+   */
+  safeDutyCycle?: number;
 }
 
 /** Result of a permission check */
@@ -48,6 +64,8 @@ export interface PermissionCheckResult {
 // Helper Functions
 // =============================================================================
 
+const { errno } = osConstants;
+
 /**
  * Check if a file is writable
  */
@@ -131,6 +149,22 @@ function getPermissionErrorMessage(chipPath: string): string {
   return message;
 }
 
+/**
+ * Write a sysfs attribute, turning fs errors into typed errors
+ */
+function writeSysfs(
+  path: string,
+  value: string,
+  description: string,
+  details: ErrorDetails
+): void {
+  try {
+    fsWriteFileSync(path, value, "utf8");
+  } catch (error) {
+    throw errorFromFsError(`Failed to ${description}`, error, details);
+  }
+}
+
 // Note: Using Node.js fs module for synchronous sysfs operations
 // Bun's file API is async, but sysfs requires synchronous writes
 
@@ -142,19 +176,27 @@ function getPermissionErrorMessage(chipPath: string): string {
  * Hardware PWM channel for controlling motors, LEDs, servos, etc.
  */
 export class PWMChannel {
+  private chipPath: string;
   private channelPath: string;
   private _channel: number;
   private _periodNs: number;
   private _dutyCycle: number;
   private _closed: boolean = false;
+  private owner: PWM;
+  private safeDutyCycle: number | undefined;
 
   /** @internal */
   constructor(
     chipPath: string,
     channel: number,
     periodNs: number,
-    dutyCycle: number
+    dutyCycle: number,
+    owner: PWM,
+    safeDutyCycle?: number
   ) {
+    this.owner = owner;
+    this.safeDutyCycle = safeDutyCycle;
+    this.chipPath = chipPath;
     this.channelPath = `${chipPath}/pwm${channel}`;
     this._channel = channel;
     this._periodNs = periodNs;
@@ -188,10 +230,17 @@ export class PWMChannel {
 
   private checkClosed(): void {
     if (this._closed) {
-      throw new Error(`PWMChannel on channel ${this._channel} has been closed`);
+      throw new ClosedError(
+        `PWMChannel on channel ${this._channel} has been closed`,
+        this.errorDetails()
+      );
     }
   }
 
+  private errorDetails(): ErrorDetails {
+    return { channel: this._channel, chip: this.chipPath };
+  }
+
   /**
    * Set the duty cycle as a ratio from 0 to 1
    * @param ratio Duty cycle where 0 = always off, 1 = always on
@@ -199,17 +248,21 @@ export class PWMChannel {
   setDutyCycle(ratio: number): this {
     this.checkClosed();
     if (ratio < 0 || ratio > 1) {
-      throw new Error("Duty cycle must be between 0 and 1");
+      throw new InvalidArgumentError(
+        "Duty cycle must be between 0 and 1",
+        this.errorDetails()
+      );
     }
 
     // Convert ratio to nanoseconds based on current period
     const dutyCycleNs = Math.round(this._periodNs * ratio);
 
     // Write to sysfs (synchronous write required)
-    fsWriteFileSync(
+    writeSysfs(
       `${this.channelPath}/duty_cycle`,
       String(dutyCycleNs),
-      "utf8"
+      `set the duty cycle of PWM channel ${this._channel}`,
+      this.errorDetails()
     );
 
     this._dutyCycle = ratio;
@@ -223,29 +276,58 @@ export class PWMChannel {
   setFrequency(frequencyHz: number): this {
     this.checkClosed();
     if (frequencyHz <= 0) {
-      throw new Error("Frequency must be greater than 0");
+      throw new InvalidArgumentError(
+        "Frequency must be greater than 0",
+        this.errorDetails()
+      );
     }
 
     // Calculate period in nanoseconds
     const periodNs = Math.round(1_000_000_000 / frequencyHz);
 
-    // Update period
-    fsWriteFileSync(`${this.channelPath}/period`, String(periodNs), "utf8");
-
-    // Update duty cycle to maintain the same ratio
+    // Keep the same ratio. The kernel rejects a duty cycle longer than the
+    // period, so a shorter period is written after the duty cycle.
     const dutyCycleNs = Math.round(periodNs * this._dutyCycle);
-    fsWriteFileSync(
-      `${this.channelPath}/duty_cycle`,
-      String(dutyCycleNs),
-      "utf8"
-    );
+    const writePeriod = () =>
+      writeSysfs(
+        `${this.channelPath}/period`,
+        String(periodNs),
+        `set the period of PWM channel ${this._channel}`,
+        this.errorDetails()
+      );
+    const writeDutyCycle = () =>
+      writeSysfs(
+        `${this.channelPath}/duty_cycle`,
+        String(dutyCycleNs),
+        `set the duty cycle of PWM channel ${this._channel}`,
+        this.errorDetails()
+      );
+
+    if (periodNs < this._periodNs) {
+      writeDutyCycle();
+      writePeriod();
+    } else {
+      writePeriod();
+      writeDutyCycle();
+    }
 
     this._periodNs = periodNs;
     return this;
   }
 
   /**
-   * Release the PWM channel
+   * Set the safe duty cycle before shutdown
+   * @internal
+   */
+  applySafeState(): void {
+    if (!this._closed && this.safeDutyCycle !== undefined) {
+      this.setDutyCycle(this.safeDutyCycle);
+    }
+  }
+
+  /**
+   * Disable and unexport the PWM channel, so it can be requested again.
+   * Calling close() again has no effect.
    */
   close(): void {
     if (!this._closed) {
@@ -256,8 +338,19 @@ export class PWMChannel {
         // Ignore errors if channel is already closed/unexported
       }
       this._closed = true;
+      this.owner.release(this._channel);
     }
   }
+
+  /** Close when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  /** Close when leaving an `await using` block */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.close();
+  }
 }
 
 // =============================================================================
@@ -281,18 +374,27 @@ export class PWM {
 
     // Check if chip path exists
     if (!existsSync(chipPath)) {
-      throw new Error(`PWM chip not found at ${chipPath}`);
+      throw new NotFoundError(`PWM chip not found at ${chipPath}`, {
+        chip: chipPath,
+      });
     }
 
     // Check permissions on export file
     const exportPath = `${chipPath}/export`;
     if (!existsSync(exportPath)) {
-      throw new Error(`Export file not found at ${exportPath}`);
+      throw new NotFoundError(`Export file not found at ${exportPath}`, {
+        chip: chipPath,
+      });
     }
 
     if (!isWritable(exportPath)) {
-      throw new Error(getPermissionErrorMessage(chipPath));
+      throw new PermissionError(getPermissionErrorMessage(chipPath), {
+        errno: errno.EACCES,
+        chip: chipPath,
+      });
     }
+
+    trackResource(this);
   }
 
   /** Path to the PWM chip */
@@ -307,7 +409,9 @@ export class PWM {
 
   private checkClosed(): void {
     if (this._closed) {
-      throw new Error("PWM controller has been closed");
+      throw new ClosedError("PWM controller has been closed", {
+        chip: this.chipPath,
+      });
     }
   }
 
@@ -345,18 +449,37 @@ export class PWM {
   channel(channel: number, options: PWMChannelOptions = {}): PWMChannel {
     this.checkClosed();
 
+    const details: ErrorDetails = { channel, chip: this.chipPath };
     if (this.channels.has(channel)) {
-      throw new Error(`PWM channel ${channel} is already in use`);
+      throw new LineBusyError(`PWM channel ${channel} is already in use`, {
+        ...details,
+        errno: errno.EBUSY,
+      });
     }
 
-    const { frequencyHz = 1000, dutyCycle = 0.5 } = options;
+    const { frequencyHz = 1000, dutyCycle = 0.5, safeDutyCycle } = options;
 
     // Validate inputs
     if (frequencyHz <= 0) {
-      throw new Error("Frequency must be greater than 0");
+      throw new InvalidArgumentError(
+        "Frequency must be greater than 0",
+        details
+      );
     }
     if (dutyCycle < 0 || dutyCycle > 1) {
-      throw new Error("Duty cycle must be between 0 and 1");
+      throw new InvalidArgumentError(
+        "Duty cycle must be between 0 and 1",
+        details
+      );
+    }
+    if (
+      safeDutyCycle !== undefined &&
+      (safeDutyCycle < 0 || safeDutyCycle > 1)
+    ) {
+      throw new InvalidArgumentError(
+        "Safe duty cycle must be between 0 and 1",
+        details
+      );
     }
 
     // Calculate period in nanoseconds
@@ -376,10 +499,10 @@ export class PWM {
         // Channel already exists, we can reuse it
         channelAlreadyExported = true;
       } else {
-        throw new Error(
-          `Failed to export PWM channel ${channel}: ${
-            error instanceof Error ? error.message : String(error)
-          }`
+        throw errorFromFsError(
+          `Failed to export PWM channel ${channel}`,
+          error,
+          details
         );
       }
     }
@@ -399,7 +522,10 @@ export class PWM {
         } catch {
           // Ignore unexport errors
         }
-        throw new Error(`Failed to create PWM channel ${channel} (timeout)`);
+        throw new NotFoundError(
+          `Failed to create PWM channel ${channel} (timeout)`,
+          details
+        );
       }
     }
 
@@ -417,10 +543,11 @@ export class PWM {
     }
 
     if (permRetries === 0) {
-      throw new Error(
+      throw new PermissionError(
         `Permission denied: Cannot write to ${periodPath}\n` +
           `The udev rule may not have set permissions yet, or you may need to run:\n` +
-          `  sudo bash scripts/setup-pwm-permissions.sh`
+          `  sudo bash scripts/setup-pwm-permissions.sh`,
+        { ...details, errno: errno.EACCES }
       );
     }
 
@@ -429,16 +556,55 @@ export class PWM {
       this.chipPath,
       channel,
       periodNs,
-      dutyCycle
+      dutyCycle,
+      this,
+      safeDutyCycle
     );
 
-    // Set period and duty cycle
-    fsWriteFileSync(`${channelPath}/period`, String(periodNs), "utf8");
-    const dutyCycleNs = Math.round(periodNs * dutyCycle);
-    fsWriteFileSync(`${channelPath}/duty_cycle`, String(dutyCycleNs), "utf8");
+    // A reused channel may have a duty cycle longer than the new period,
+    // which the kernel would reject
+    if (channelAlreadyExported) {
+      try {
+        fsWriteFileSync(`${channelPath}/duty_cycle`, "0", "utf8");
+      } catch {
+        // Fails only while no period is set, when there is nothing to shorten
+      }
+    }
+
+    try {
+      // Set period and duty cycle
+      writeSysfs(
+        `${channelPath}/period`,
+        String(periodNs),
+        `set the period of PWM channel ${channel}`,
+        details
+      );
+      const dutyCycleNs = Math.round(periodNs * dutyCycle);
+      writeSysfs(
+        `${channelPath}/duty_cycle`,
+        String(dutyCycleNs),
+        `set the duty cycle of PWM channel ${channel}`,
+        details
+      );
 
-    // Enable the channel (always enabled, like GPIO outputs)
-    fsWriteFileSync(`${channelPath}/enable`, "1", "utf8");
+      // Enable the channel (always enabled, like GPIO outputs)
+      writeSysfs(
+        `${channelPath}/enable`,
+        "1",
+        `enable PWM channel ${channel}`,
+        details
+      );
+    } catch (error) {
+      // Give back a channel this call exported; a reused one stays as found
+      if (!channelAlreadyExported) {
+        try {
+          fsWriteFileSync(`${this.chipPath}/unexport`, String(channel), "utf8");
+        } catch {
+          // Ignore unexport errors
+        }
+      }
+      throw error;
+    }
 
     // Track the channel
     this.channels.set(channel, pwmChannel);
@@ -447,28 +613,57 @@ export class PWM {
   }
 
   /**
-   * Close all PWM channels and release resources
+   * Unexport a channel once it has been closed
+   * @internal
+   */
+  release(channel: number): void {
+    if (!this.channels.delete(channel)) {
+      return;
+    }
+
+    try {
+      fsWriteFileSync(`${this.chipPath}/unexport`, String(channel), "utf8");
+    } catch (error) {
+      // Ignore unexport errors (channel might already be unexported)
+    }
+  }
+
+  /**
+   * Set the safe duty cycle of every channel before shutdown
+   * @internal
+   */
+  applySafeState(): void {
+    for (const pwmChannel of this.channels.values()) {
+      pwmChannel.applySafeState();
+    }
+  }
+
+  /**
+   * Close all PWM channels and release resources.
+   * Calling close() again has no effect.
    */
   close(): void {
     if (!this._closed) {
-      // Close all channels
-      for (const [channel, pwmChannel] of this.channels) {
-        if (!pwmChannel.closed) {
-          pwmChannel.close();
-        }
-
-        // Unexport the channel
-        try {
-          fsWriteFileSync(`${this.chipPath}/unexport`, String(channel), "utf8");
-        } catch (error) {
-          // Ignore unexport errors (channel might already be unexported)
-        }
+      // Closing a channel also unexports it
+      for (const pwmChannel of [...this.channels.values()]) {
+        pwmChannel.close();
       }
 
       this.channels.clear();
       this._closed = true;
+      untrackResource(this);
     }
   }
+
+  /** Close when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  /** Close when leaving an `await using` block */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.close();
+  }
 }
 
 // =============================================================================
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { GPIO } from "./gpio";
+import { GPIOSimulator, type SimulatedChip } from "./gpio-simulator";
+import { RotaryEncoder, type RotaryEncoderOptions } from "./rotary-encoder";
+import { monotonicNs, VirtualScheduler } from "./scheduler";
+
+const START_NS = 1_000_000_000n;
+const MS = 1_000_000n;
+const A = 17;
+const B = 27;
+const SWITCH = 22;
+
+let scheduler: VirtualScheduler;
+let simChip: SimulatedChip;
+let gpio: GPIO;
+
+beforeEach(() => {
+  scheduler = new VirtualScheduler(START_NS);
+  const sim = new GPIOSimulator({ scheduler });
+  simChip = sim.addChip();
+  gpio = new GPIO(simChip.path, { backend: sim, scheduler });
+});
+
+afterEach(() => {
+  gpio.close();
+});
+
+function createEncoder(options: Partial<RotaryEncoderOptions> = {}) {
+  return new RotaryEncoder(gpio, { a: A, b: B, ...options });
+}
+
+/**
+ * Turn the encoder through whole quadrature cycles from the idle state
+ * (both lines pulled high), one edge every `edgeMs`
+ * @param cycles Positive when A leads B
+ */
+async function turn(cycles: number, edgeMs: number = 1): Promise<void> {
+  const [first, second] = cycles > 0 ? [A, B] : [B, A];
+  for (let i = 0; i < Math.abs(cycles); i++) {
+    for (const [pin, level] of [
+      [first, false],
+      [second, false],
+      [first, true],
+      [second, true],
+    ] as const) {
+      simChip.drive(pin, level);
+      scheduler.advance(edgeMs);
+      await Bun.sleep(0);
+    }
+  }
+}
+
+describe("decoding", () => {
+  test("counts every edge with x4", async () => {
+    const encoder = createEncoder();
+    const deltas: number[] = [];
+    encoder.onRotate((event) => deltas.push(event.delta));
+
+    await turn(2);
+
+    expect(encoder.position).toBe(8);
+    expect(deltas).toEqual([1, 1, 1, 1, 1, 1, 1, 1]);
+  });
+
+  test("counts once per cycle with x1, negative when B leads", async () => {
+    const encoder = createEncoder({ decoding: "x1" });
+    const events: string[] = [];
+    encoder.onRotate((event) =>
+      events.push(`${event.direction} ${event.position}`)
+    );
+
+    await turn(2);
+    await turn(-3);
+
+    expect(events).toEqual(["cw 1", "cw 2", "ccw 1", "ccw 0", "ccw -1"]);
+  });
+
+  test("counts twice per cycle with x2", async () => {
+    const encoder = createEncoder({ decoding: "x2" });
+
+    await turn(3);
+
+    expect(encoder.position).toBe(6);
+  });
+
+  test("ignores contact bounce on one line", async () => {
+    const encoder = createEncoder({ decoding: "x1" });
+
+    for (const level of [false, true, false, true, false, true]) {
+      simChip.drive(A, level);
+      scheduler.advance(1);
+    }
+    await Bun.sleep(0);
+
+    expect(encoder.position).toBe(0);
+  });
+
+  test("orders the edges of both lines by timestamp", async () => {
+    const encoder = createEncoder();
+
+    // B fell first, even though its edge is reported last
+    simChip.drive(A, false, { timestampNs: START_NS + 2n * MS });
+    simChip.drive(B, false, { timestampNs: START_NS + 1n * MS });
+    await Bun.sleep(0);
+
+    expect(encoder.position).toBe(-2);
+  });
+
+  test("reset() sets the position", async () => {
+    const encoder = createEncoder();
+    await turn(1);
+
+    encoder.reset(100);
+    await turn(-1);
+
+    expect(encoder.position).toBe(96);
+  });
+});
+
+describe("velocity", () => {
+  test("averages the counts over the window", async () => {
+    const encoder = createEncoder({ velocityWindowMs: 200 });
+
+    // 8 counts, one every 10 ms
+    await turn(2, 10);
+
+    expect(encoder.velocity).toBe(40);
+  });
+
+  test("decays to 0 once the encoder stops", async () => {
+    const encoder = createEncoder({ velocityWindowMs: 200 });
+    await turn(-1, 10);
+    expect(encoder.velocity).toBe(-20);
+
+    // Counts at 0, 10, 20 and 30 ms; the window now starts at 15 ms
+    scheduler.advance(175);
+    expect(encoder.velocity).toBe(-10);
+
+    scheduler.advance(20);
+    expect(encoder.velocity).toBe(0);
+  });
+
+  test("decays to 0 for kernel timestamps on the system clock", async () => {
+    const sim = new GPIOSimulator();
+    const chip = sim.addChip();
+    const systemGpio = new GPIO(chip.path, { backend: sim });
+    const encoder = new RotaryEncoder(systemGpio, {
+      a: A,
+      b: B,
+      velocityWindowMs: 20,
+    });
+
+    try {
+      // Stamped like the kernel does, on CLOCK_MONOTONIC
+      chip.drive(A, false, { timestampNs: monotonicNs() });
+      chip.drive(B, false, { timestampNs: monotonicNs() });
+      await Bun.sleep(0);
+      expect(encoder.velocity).toBe(100);
+
+      await Bun.sleep(30);
+      expect(encoder.velocity).toBe(0);
+    } finally {
+      systemGpio.close();
+    }
+  });
+});
+
+describe("push switch", () => {
+  test("reports presses and releases", async () => {
+    const encoder = createEncoder({ button: SWITCH, buttonDebounceMs: 0 });
+    const events: string[] = [];
+    encoder.onPress((timestampNs) => events.push(`press ${timestampNs}`));
+    encoder.onRelease((timestampNs) => events.push(`release ${timestampNs}`));
+
+    simChip.drive(SWITCH, false, { timestampNs: 5n });
+    simChip.drive(SWITCH, true, { timestampNs: 9n });
+    await Bun.sleep(0);
+
+    expect(events).toEqual(["press 5", "release 9"]);
+    expect(encoder.pressed).toBe(false);
+  });
+
+  test("releases every line on close", () => {
+    const encoder = createEncoder({ button: SWITCH });
+
+    encoder.close();
+
+    expect(() => gpio.input(A).close()).not.toThrow();
+    expect(() => gpio.input(SWITCH).close()).not.toThrow();
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * Quadrature decoding for rotary encoders
+ *
+ * A RotaryEncoder requests the A and B lines of an encoder, such as a KY-040
+ * or a motor encoder, and decodes their edges with a state table. Edges of
+ * both lines are ordered by their kernel timestamps before decoding, and a
+ * step is only counted once the encoder reaches the next aligned state, so
+ * contact bounce moves back and forth without changing the position.
+ *
+ * @example
+ * ```typescript
+ * const knob = new RotaryEncoder(chip, { a: 17, b: 27, button: 22, decoding: "x1" });
+ * knob.onRotate(({ delta, position }) => console.log(delta, position));
+ * knob.onPress(() => knob.reset());
+ * ```
+ */
+
+import type {
+  BiasSetting,
+  EdgeCallback,
+  EdgeEvent,
+  GPIO,
+  GPIOInput,
+  OverflowCallback,
+} from "./gpio";
+import {
+  InvalidArgumentError,
+  reportError,
+  type ErrorCallback,
+} from "./errors";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Counts per quadrature cycle: one, one per level of A, or every edge */
+export type QuadratureDecoding = "x1" | "x2" | "x4";
+
+/** Options for a rotary encoder */
+export interface RotaryEncoderOptions {
+  /** GPIO pin of channel A */
+  a: number;
+  /** GPIO pin of channel B */
+  b: number;
+  /** GPIO pin of the push switch, if the encoder has one */
+  button?: number;
+  /** Counts per quadrature cycle (default: "x4") */
+  decoding?: QuadratureDecoding;
+  /** Bias of the A and B lines (default: "pull-up") */
+  bias?: BiasSetting;
+  /** Debounce period of the A and B lines in milliseconds (default: 0) */
+  debounceMs?: number;
+  /** Bias of the switch line (default: "pull-up") */
+  buttonBias?: BiasSetting;
+  /** Whether the switch pulls its line low when pressed (default: true) */
+  buttonActiveLow?: boolean;
+  /** Debounce period of the switch in milliseconds (default: 5) */
+  buttonDebounceMs?: number;
+  /** Time over which velocity is averaged, in milliseconds (default: 200) */
+  velocityWindowMs?: number;
+}
+
+/** A change of the encoder position */
+export interface RotateEvent {
+  /** Counts moved, positive when A leads B */
+  delta: number;
+  /** Direction of the movement */
+  direction: "cw" | "ccw";
+  /** Position after the movement */
+  position: number;
+  /** Kernel timestamp of the edge that completed the step, in nanoseconds */
+  timestampNs: bigint;
+}
+
+/** Callback for encoder movements */
+export type RotateCallback = (event: RotateEvent) => void;
+
+/** Callback for presses and releases of the push switch */
+export type ButtonCallback = (timestampNs: bigint) => void;
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Quarter steps for a transition between AB states, indexed by the old and
+ * the new state. A leading B runs 00 → 10 → 11 → 01 → 00.
+ * Transitions that skip a state are ambiguous and count as 0.
+ */
+const TRANSITIONS: readonly (readonly number[])[] = [
+  [0, -1, 1, 0],
+  [1, 0, 0, -1],
+  [-1, 0, 0, 1],
+  [0, 1, -1, 0],
+];
+
+const QUARTERS_PER_COUNT: Record<QuadratureDecoding, number> = {
+  x1: 4,
+  x2: 2,
+  x4: 1,
+};
+
+/** Remove the first occurrence of a callback */
+function removeCallback<T>(callbacks: T[], callback: T): void {
+  const index = callbacks.indexOf(callback);
+  if (index !== -1) {
+    callbacks.splice(index, 1);
+  }
+}
+
+/** Combine the levels of A and B into a state */
+function quadratureState(a: boolean, b: boolean): number {
+  return (a ? 2 : 0) | (b ? 1 : 0);
+}
+
+// =============================================================================
+// RotaryEncoder Class
+// =============================================================================
+
+/**
+ * Decodes a quadrature rotary encoder, with an optional push switch
+ */
+export class RotaryEncoder {
+  private readonly inputA: GPIOInput;
+  private readonly inputB: GPIOInput;
+  private readonly inputButton: GPIOInput | null = null;
+  private readonly quartersPerCount: number;
+  private readonly velocityWindowNs: bigint;
+  private readonly _decoding: QuadratureDecoding;
+
+  private levelA: boolean;
+  private levelB: boolean;
+  /** Quarter steps since the last aligned state */
+  private quarters: number = 0;
+  private _position: number = 0;
+  /** Edges waiting to be decoded in timestamp order */
+  private pending: EdgeEvent[] = [];
+  /** Recent steps for the velocity, oldest first */
+  private steps: { timestampNs: bigint; delta: number }[] = [];
+  private _closed: boolean = false;
+
+  private rotateCallbacks: RotateCallback[] = [];
+  private pressCallbacks: ButtonCallback[] = [];
+  private releaseCallbacks: ButtonCallback[] = [];
+  private errorCallbacks: ErrorCallback[] = [];
+
+  /**
+   * @param chip Chip the encoder is connected to
+   * @param options Pins and decoding options
+   * @throws {InvalidArgumentError} If the options are invalid
+   * @throws {LineBusyError} If one of the lines is in use
+   */
+  constructor(chip: GPIO, options: RotaryEncoderOptions) {
+    const {
+      a,
+      b,
+      button,
+      decoding = "x4",
+      bias = "pull-up",
+      debounceMs = 0,
+      buttonBias = "pull-up",
+      buttonActiveLow = true,
+      buttonDebounceMs = 5,
+      velocityWindowMs = 200,
+    } = options;
+
+    if (!(decoding in QUARTERS_PER_COUNT)) {
+      throw new InvalidArgumentError(`Invalid decoding: ${decoding}`);
+    }
+    const pins = button === undefined ? [a, b] : [a, b, button];
+    if (new Set(pins).size !== pins.length) {
+      throw new InvalidArgumentError("Encoder pins must be different");
+    }
+    if (!(velocityWindowMs > 0) || !Number.isFinite(velocityWindowMs)) {
+      throw new InvalidArgumentError(
+        "Velocity window must be a positive duration"
+      );
+    }
+
+    this._decoding = decoding;
+    this.quartersPerCount = QUARTERS_PER_COUNT[decoding];
+    this.velocityWindowNs = BigInt(Math.round(velocityWindowMs * 1_000_000));
+
+    // Release the lines already requested if a later one fails
+    const inputs: GPIOInput[] = [];
+    try {
+      const lineOptions = { edge: "both", bias, debounceMs } as const;
+      this.inputA = chip.input(a, lineOptions);
+      inputs.push(this.inputA);
+      this.inputB = chip.input(b, lineOptions);
+      inputs.push(this.inputB);
+      if (button !== undefined) {
+        this.inputButton = chip.input(button, {
+          edge: "both",
+          bias: buttonBias,
+          activeLow: buttonActiveLow,
+          debounceMs: buttonDebounceMs,
+        });
+      }
+    } catch (err) {
+      for (const input of inputs) {
+        input.close();
+      }
+      throw err;
+    }
+
+    this.levelA = this.inputA.read();
+    this.levelB = this.inputB.read();
+
+    const onQuadratureEdge: EdgeCallback = (event) => this.queueEdge(event);
+    const onOverflow: OverflowCallback = () => this.resync();
+    for (const input of [this.inputA, this.inputB]) {
+      input.onEdge(onQuadratureEdge);
+      input.onOverflow(onOverflow);
+      input.onError((err) => this.reportError(err));
+    }
+    this.inputButton?.onEdge((event) => this.handleButton(event));
+    this.inputButton?.onError((err) => this.reportError(err));
+  }
+
+  /** Counts per quadrature cycle */
+  get decoding(): QuadratureDecoding {
+    return this._decoding;
+  }
+
+  /** Position in counts, positive when A leads B */
+  get position(): number {
+    return this._position;
+  }
+
+  /**
+   * Average speed over the velocity window, in counts per second
+   * (positive when A leads B). Decays to 0 once the encoder stops.
+   */
+  get velocity(): number {
+    // The window ends now on the clock of the step timestamps, or at the
+    // last step with the hardware timestamp engine
+    const lastStep = this.steps[this.steps.length - 1];
+    this.trimSteps(this.inputA.clockNowNs() ?? lastStep?.timestampNs ?? 0n);
+    let counts = 0;
+    for (const step of this.steps) {
+      counts += step.delta;
+    }
+    return (counts * 1e9) / Number(this.velocityWindowNs);
+  }
+
+  /** Whether the push switch is pressed, false without a switch */
+  get pressed(): boolean {
+    return this.inputButton?.read() ?? false;
+  }
+
+  /** Whether the encoder has been closed */
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  /**
+   * Edges of A and B come from separate requests and can arrive out of
+   * order, so decode them together once the current batch is delivered
+   */
+  private queueEdge(event: EdgeEvent): void {
+    if (this.pending.length === 0) {
+      queueMicrotask(() => this.decodePending());
+    }
+    this.pending.push(event);
+  }
+
+  private decodePending(): void {
+    const events = this.pending.sort((x, y) =>
+      x.timestampNs < y.timestampNs ? -1 : x.timestampNs > y.timestampNs ? 1 : 0
+    );
+    this.pending = [];
+    if (this._closed) {
+      return;
+    }
+    for (const event of events) {
+      this.decode(event);
+    }
+  }
+
+  private decode(event: EdgeEvent): void {
+    const level = event.type === "rising";
+    const previous = quadratureState(this.levelA, this.levelB);
+    if (event.pin === this.inputA.pin) {
+      this.levelA = level;
+    } else {
+      this.levelB = level;
+    }
+    const state = quadratureState(this.levelA, this.levelB);
+
+    this.quarters += TRANSITIONS[previous]![state]!;
+    if (Math.abs(this.quarters) < this.quartersPerCount) {
+      return;
+    }
+
+    const delta = Math.trunc(this.quarters / this.quartersPerCount);
+    this.quarters -= delta * this.quartersPerCount;
+    this._position += delta;
+    this.steps.push({ timestampNs: event.timestampNs, delta });
+    this.trimSteps(event.timestampNs);
+
+    const rotate: RotateEvent = {
+      delta,
+      direction: delta > 0 ? "cw" : "ccw",
+      position: this._position,
+      timestampNs: event.timestampNs,
+    };
+    for (const callback of [...this.rotateCallbacks]) {
+      try {
+        callback(rotate);
+      } catch (err) {
+        this.reportError(err);
+      }
+    }
+  }
+
+  /** Lost edges leave the state unknown, so start over from the lines */
+  private resync(): void {
+    this.pending = [];
+    this.levelA = this.inputA.read();
+    this.levelB = this.inputB.read();
+    this.quarters = 0;
+  }
+
+  private trimSteps(nowNs: bigint): void {
+    const startNs = nowNs - this.velocityWindowNs;
+    while (this.steps.length > 0 && this.steps[0]!.timestampNs < startNs) {
+      this.steps.shift();
+    }
+  }
+
+  private handleButton(event: EdgeEvent): void {
+    const callbacks =
+      event.type === "rising" ? this.pressCallbacks : this.releaseCallbacks;
+    for (const callback of [...callbacks]) {
+      try {
+        callback(event.timestampNs);
+      } catch (err) {
+        this.reportError(err);
+      }
+    }
+  }
+
+  /**
+   * Set the position, counting from the current state of the encoder
+   * @param position New position (default: 0)
+   */
+  reset(position: number = 0): this {
+    this._position = position;
+    this.quarters = 0;
+    this.steps = [];
+    return this;
+  }
+
+  /**
+   * Register a callback for changes of the position
+   */
+  onRotate(callback: RotateCallback): this {
+    this.rotateCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Remove a rotate callback
+   */
+  offRotate(callback: RotateCallback): this {
+    removeCallback(this.rotateCallbacks, callback);
+    return this;
+  }
+
+  /**
+   * Register a callback for presses of the push switch
+   */
+  onPress(callback: ButtonCallback): this {
+    this.pressCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Remove a press callback
+   */
+  offPress(callback: ButtonCallback): this {
+    removeCallback(this.pressCallbacks, callback);
+    return this;
+  }
+
+  /**
+   * Register a callback for releases of the push switch
+   */
+  onRelease(callback: ButtonCallback): this {
+    this.releaseCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Remove a release callback
+   */
+  offRelease(callback: ButtonCallback): this {
+    removeCallback(this.releaseCallbacks, callback);
+    return this;
+  }
+
+  /**
+   * Register a callback for exceptions thrown by callbacks and for errors
+   * of the encoder lines.
+   * Without callbacks, these errors are rethrown as uncaught exceptions.
+   */
+  onError(callback: ErrorCallback): this {
+    this.errorCallbacks.push(callback);
+    return this;
+  }
+
+  /**
+   * Remove an error callback
+   */
+  offError(callback: ErrorCallback): this {
+    removeCallback(this.errorCallbacks, callback);
+    return this;
+  }
+
+  private reportError(error: unknown): void {
+    reportError(this.errorCallbacks, error);
+  }
+
+  /** Release the encoder lines */
+  close(): void {
+    if (this._closed) {
+      return;
+    }
+    this._closed = true;
+    this.pending = [];
+    this.inputA.close();
+    this.inputB.close();
+    this.inputButton?.close();
+  }
+
+  /** Release the encoder lines when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+}
@@ -0,0 +1,275 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { dlopen, ptr } from "bun:ffi";
+import { GPIO } from "./gpio";
+import { GPIOSimulator, type SimulatedChip } from "./gpio-simulator";
+import { systemScheduler, VirtualScheduler } from "./scheduler";
+import { SoftwarePWM } from "./software-pwm";
+
+const START_NS = 1_000_000_000n;
+const MS = 1_000_000n;
+
+let scheduler: VirtualScheduler;
+let simChip: SimulatedChip;
+let gpio: GPIO;
+
+beforeEach(() => {
+  scheduler = new VirtualScheduler(START_NS);
+  const sim = new GPIOSimulator({ scheduler });
+  simChip = sim.addChip();
+  gpio = new GPIO(simChip.path, { backend: sim, scheduler });
+});
+
+afterEach(() => {
+  gpio.close();
+});
+
+/** CLOCK_MONOTONIC, read the way the kernel stamps edge events */
+function kernelNowNs(): bigint {
+  const libc = dlopen("libc.so.6", {
+    clock_gettime: { args: ["i32", "ptr"], returns: "i32" },
+  });
+  const timespec = new BigInt64Array(2);
+  libc.symbols.clock_gettime(1, ptr(timespec));
+  libc.close();
+  return timespec[0]! * 1_000_000_000n + timespec[1]!;
+}
+
+describe("systemScheduler", () => {
+  test("reads the clock of kernel edge timestamps", () => {
+    const before = kernelNowNs();
+    const now = systemScheduler.nowNs();
+    const after = kernelNowNs();
+
+    expect(now).toBeGreaterThanOrEqual(before);
+    expect(now).toBeLessThanOrEqual(after);
+  });
+
+  test("measures the age of edges with kernel timestamps", async () => {
+    const sim = new GPIOSimulator();
+    const chip = sim.addChip();
+    const systemGpio = new GPIO(chip.path, { backend: sim });
+    const input = systemGpio.input(17, { edge: "both", bias: "pull-down" });
+    const ages: bigint[] = [];
+    input.onEdge((event) => ages.push(input.clockNowNs()! - event.timestampNs));
+
+    try {
+      chip.drive(17, true, { timestampNs: kernelNowNs() - 5n * MS });
+      await Bun.sleep(0);
+    } finally {
+      systemGpio.close();
+    }
+
+    expect(ages).toHaveLength(1);
+    expect(ages[0]!).toBeGreaterThanOrEqual(5n * MS);
+    expect(ages[0]!).toBeLessThan(1_000n * MS);
+  });
+});
+
+describe("VirtualScheduler", () => {
+  test("runs timers in the order they fall due, ties in scheduling order", () => {
+    const order: string[] = [];
+    scheduler.setTimeout(() => order.push("b@2"), 2);
+    scheduler.setTimeout(() => order.push("a@1"), 1);
+    scheduler.setTimeout(() => order.push("c@2"), 2);
+    const interval = scheduler.setInterval(() => order.push("tick"), 1.5);
+
+    scheduler.advance(3);
+    scheduler.clearInterval(interval);
+
+    expect(order).toEqual(["a@1", "tick", "b@2", "c@2", "tick"]);
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+
+  test("shows each timer its own due time", () => {
+    const times: bigint[] = [];
+    scheduler.setTimeout(() => times.push(scheduler.nowNs()), 4);
+    scheduler.setTimeout(() => times.push(scheduler.nowNs()), 1);
+
+    scheduler.advanceTo(START_NS + 10n * MS);
+
+    expect(times).toEqual([START_NS + 1n * MS, START_NS + 4n * MS]);
+    expect(scheduler.nowNs()).toBe(START_NS + 10n * MS);
+  });
+
+  test("runs timers scheduled by a timer within the same advance", () => {
+    const times: bigint[] = [];
+    scheduler.setTimeout(() => {
+      times.push(scheduler.nowNs());
+      scheduler.setTimeout(() => times.push(scheduler.nowNs()), 2);
+    }, 1);
+
+    scheduler.advance(5);
+
+    expect(times).toEqual([START_NS + 1n * MS, START_NS + 3n * MS]);
+  });
+});
+
+describe("SoftwarePWM", () => {
+  test("switches the output at exact virtual times", () => {
+    const output = gpio.output(18);
+    const pwm = new SoftwarePWM(output, { frequencyHz: 100, dutyCycle: 0.3 });
+
+    scheduler.advance(25);
+    pwm.close();
+
+    expect(
+      simChip
+        .history(18)
+        .map(({ value, timestampNs }) => [value, timestampNs - START_NS])
+    ).toEqual([
+      [false, 0n],
+      [true, 0n],
+      [false, 3n * MS],
+      [true, 10n * MS],
+      [false, 13n * MS],
+      [true, 20n * MS],
+      [false, 23n * MS],
+      [false, 25n * MS],
+    ]);
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+
+  test("applies a new duty cycle from the next tick", () => {
+    const output = gpio.output(18);
+    const pwm = new SoftwarePWM(output, { frequencyHz: 100, dutyCycle: 0.5 });
+    scheduler.advance(10);
+    simChip.clearHistory(18);
+
+    pwm.setDutyCycle(0.2);
+    scheduler.advance(10);
+    pwm.close();
+
+    expect(
+      simChip
+        .history(18)
+        .map(({ value, timestampNs }) => [value, timestampNs - START_NS])
+    ).toEqual([
+      [false, 12n * MS],
+      [true, 20n * MS],
+      [false, 20n * MS],
+    ]);
+  });
+
+  test("holds the output at 0 and 1", () => {
+    const output = gpio.output(18);
+    const pwm = new SoftwarePWM(output, { frequencyHz: 100, dutyCycle: 1 });
+    scheduler.advance(30);
+    pwm.setDutyCycle(0);
+    scheduler.advance(30);
+
+    expect(simChip.history(18).map((change) => change.value)).toEqual([
+      false,
+      true,
+      false,
+    ]);
+    expect(simChip.history(18).at(-1)!.timestampNs).toBe(START_NS + 31n * MS);
+    pwm.close();
+  });
+});
+
+describe("input polling", () => {
+  test("samples an input without edge detection at the poll interval", () => {
+    const input = gpio.input(17, { bias: "pull-down" });
+    const changes: [boolean, bigint, boolean][] = [];
+    input.onChange(
+      (change) =>
+        changes.push([
+          change.value,
+          change.timestampNs - START_NS,
+          change.precise,
+        ]),
+      { pollIntervalMs: 5 }
+    );
+
+    scheduler.advance(3);
+    simChip.drive(17, true);
+    scheduler.advance(4);
+    simChip.drive(17, false);
+    simChip.drive(17, true); // between two samples, so never seen
+    scheduler.advance(10);
+    simChip.drive(17, false);
+    scheduler.advance(5);
+
+    expect(changes).toEqual([
+      [true, 5n * MS, false],
+      [false, 20n * MS, false],
+    ]);
+
+    input.close();
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+
+  test("calls change callbacks and other timers in the order they fall due", () => {
+    const input = gpio.input(17, { bias: "pull-down" });
+    const order: string[] = [];
+    input.onChange(() => order.push("fast"), { pollIntervalMs: 1 });
+    input.onChange(() => order.push("slow"), { pollIntervalMs: 2 });
+    scheduler.setTimeout(() => order.push("timeout"), 2);
+
+    simChip.drive(17, true);
+    scheduler.advance(2);
+
+    expect(order).toEqual(["fast", "slow", "timeout"]);
+  });
+
+  test("waitFor() resolves once the level has been stable", async () => {
+    const input = gpio.input(17, { bias: "pull-down" });
+    const result = input.waitFor(true, { stableMs: 5, pollIntervalMs: 1 });
+
+    simChip.drive(17, true);
+    scheduler.advance(3);
+    simChip.drive(17, false); // too short, starts over
+    scheduler.advance(3);
+    simChip.drive(17, true);
+    scheduler.advance(10);
+
+    expect(await result).toEqual({
+      value: true,
+      timestampNs: START_NS + 7n * MS,
+      precise: false,
+    });
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+
+  test("waitFor() times out on the virtual clock", async () => {
+    const input = gpio.input(17, { bias: "pull-down" });
+    let settled = false;
+    const result = input
+      .waitFor(true, { timeoutMs: 50 })
+      .finally(() => (settled = true));
+
+    scheduler.advance(49);
+    await Bun.sleep(0);
+    expect(settled).toBe(false);
+
+    scheduler.advance(1);
+    expect(await result).toBeNull();
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+
+  test("waitForPulse() measures the width between samples", async () => {
+    const input = gpio.input(17, { bias: "pull-down" });
+    const result = input.waitForPulse(true, {
+      minWidthMs: 2,
+      pollIntervalMs: 1,
+    });
+
+    scheduler.advance(1);
+    simChip.drive(17, true);
+    scheduler.advance(1);
+    simChip.drive(17, false); // 1 ms, too short
+    scheduler.advance(2);
+    simChip.drive(17, true);
+    scheduler.advance(4);
+    simChip.drive(17, false);
+    scheduler.advance(1);
+
+    expect(await result).toEqual({
+      value: true,
+      startNs: START_NS + 5n * MS,
+      endNs: START_NS + 9n * MS,
+      widthNs: 4n * MS,
+      precise: false,
+    });
+  });
+});
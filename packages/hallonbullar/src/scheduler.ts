@@ -0,0 +1,242 @@
+/**
+ * Time source and timers behind every timed helper
+ *
+ * SoftwarePWM, input sampling, software debouncing and timeouts read the
+ * time and schedule their timers through a Scheduler. The system scheduler
+ * reads CLOCK_MONOTONIC, the clock the kernel stamps edge events with by
+ * default, and uses the runtime timers; a VirtualScheduler only
+ * moves when a test advances it, so timing-dependent behaviour can be
+ * checked deterministically.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new VirtualScheduler();
+ * const sim = new GPIOSimulator({ scheduler });
+ * const simChip = sim.addChip();
+ * const chip = new GPIO(simChip.path, { backend: sim, scheduler });
+ *
+ * const pwm = new SoftwarePWM(chip.output(17), { frequencyHz: 100, dutyCycle: 0.25 });
+ * scheduler.advance(10); // exactly one period, one tick per millisecond
+ * ```
+ */
+
+import { dlopen, ptr } from "bun:ffi";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Opaque handle of a scheduled timer */
+export type TimerHandle = unknown;
+
+/** Source of time and timers */
+export interface Scheduler {
+  /**
+   * Monotonic time in nanoseconds, on the clock of edge event timestamps
+   * with the default "monotonic" event clock
+   */
+  nowNs(): bigint;
+  /** Run a callback once after a delay in milliseconds */
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  /** Cancel a timer created with setTimeout() */
+  clearTimeout(handle: TimerHandle): void;
+  /** Run a callback repeatedly, every `ms` milliseconds */
+  setInterval(callback: () => void, ms: number): TimerHandle;
+  /** Cancel a timer created with setInterval() */
+  clearInterval(handle: TimerHandle): void;
+}
+
+/** A timer of the virtual scheduler */
+interface VirtualTimer {
+  id: number;
+  dueNs: bigint;
+  /** Repeat interval, null for one-shot timers */
+  intervalNs: bigint | null;
+  callback: () => void;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+const CLOCK_REALTIME = 0;
+const CLOCK_MONOTONIC = 1;
+
+/**
+ * Read clocks with clock_gettime(2). process.hrtime() counts from the start
+ * of the process instead of CLOCK_MONOTONIC, so it cannot be compared with
+ * kernel timestamps.
+ * @returns A reader, or null where libc cannot be loaded
+ */
+function loadClockGettime(): ((clockId: number) => bigint) | null {
+  try {
+    const libc = dlopen("libc.so.6", {
+      clock_gettime: {
+        args: ["i32", "ptr"],
+        returns: "i32",
+      },
+    });
+    // struct timespec { time_t tv_sec; long tv_nsec; }
+    const timespec = new BigInt64Array(2);
+    return (clockId) => {
+      libc.symbols.clock_gettime(clockId, ptr(timespec));
+      return timespec[0]! * 1_000_000_000n + timespec[1]!;
+    };
+  } catch {
+    return null;
+  }
+}
+
+const clockGettime = loadClockGettime();
+
+/**
+ * Current CLOCK_MONOTONIC time in nanoseconds
+ * @internal
+ */
+export function monotonicNs(): bigint {
+  // Without libc there are no GPIO chips either, only the simulators
+  return clockGettime?.(CLOCK_MONOTONIC) ?? process.hrtime.bigint();
+}
+
+/**
+ * Current CLOCK_REALTIME time in nanoseconds since the Unix epoch
+ * @internal
+ */
+export function realtimeNs(): bigint {
+  return clockGettime?.(CLOCK_REALTIME) ?? BigInt(Date.now()) * 1_000_000n;
+}
+
+/** Convert a delay in milliseconds to nanoseconds */
+function msToNs(ms: number): bigint {
+  return BigInt(Math.round(Math.max(ms, 0) * 1_000_000));
+}
+
+// =============================================================================
+// System Scheduler
+// =============================================================================
+
+/**
+ * Scheduler using CLOCK_MONOTONIC and the runtime timers
+ */
+export const systemScheduler: Scheduler = {
+  nowNs: monotonicNs,
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) =>
+    clearInterval(handle as ReturnType<typeof setInterval>),
+};
+
+// =============================================================================
+// Virtual Scheduler
+// =============================================================================
+
+/**
+ * Scheduler whose time only moves when advance() is called.
+ * Timers run synchronously inside advance(), in the order they fall due;
+ * promise callbacks they trigger run once advance() returns.
+ */
+export class VirtualScheduler implements Scheduler {
+  private _nowNs: bigint;
+  private timers: Map<number, VirtualTimer> = new Map();
+  private nextId: number = 1;
+
+  /**
+   * @param startNs Initial time in nanoseconds (default: 0)
+   */
+  constructor(startNs: bigint = 0n) {
+    this._nowNs = startNs;
+  }
+
+  /** Number of timers waiting to run */
+  get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  nowNs(): bigint {
+    return this._nowNs;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    return this.schedule(callback, msToNs(ms), null);
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  setInterval(callback: () => void, ms: number): TimerHandle {
+    // Like the runtime timers, intervals repeat at most once per millisecond
+    const intervalNs = msToNs(Math.max(ms, 1));
+    return this.schedule(callback, intervalNs, intervalNs);
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  private schedule(
+    callback: () => void,
+    delayNs: bigint,
+    intervalNs: bigint | null
+  ): number {
+    const id = this.nextId++;
+    this.timers.set(id, {
+      id,
+      dueNs: this._nowNs + delayNs,
+      intervalNs,
+      callback,
+    });
+    return id;
+  }
+
+  /**
+   * Move time forward, running every timer that falls due on the way
+   * @param ms Milliseconds to advance by
+   */
+  advance(ms: number): void {
+    this.advanceTo(this._nowNs + msToNs(ms));
+  }
+
+  /**
+   * Move time forward to an absolute time, running every timer that falls
+   * due on the way
+   * @param targetNs Time in nanoseconds, not before the current time
+   */
+  advanceTo(targetNs: bigint): void {
+    while (true) {
+      const next = this.nextDue();
+      if (!next || next.dueNs > targetNs) {
+        break;
+      }
+
+      this._nowNs = next.dueNs;
+      if (next.intervalNs !== null) {
+        next.dueNs += next.intervalNs;
+      } else {
+        this.timers.delete(next.id);
+      }
+      next.callback();
+    }
+
+    if (targetNs > this._nowNs) {
+      this._nowNs = targetNs;
+    }
+  }
+
+  /** Earliest timer, the first scheduled one on a tie */
+  private nextDue(): VirtualTimer | null {
+    let next: VirtualTimer | null = null;
+    for (const timer of this.timers.values()) {
+      if (
+        !next ||
+        timer.dueNs < next.dueNs ||
+        (timer.dueNs === next.dueNs && timer.id < next.id)
+      ) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { ClosedError } from "./errors";
+import { GPIO } from "./gpio";
+import { GPIOSimulator, type SimulatedChip } from "./gpio-simulator";
+import { VirtualScheduler } from "./scheduler";
+import { Servo } from "./servo";
+import { SoftwarePWM } from "./software-pwm";
+
+const START_NS = 1_000_000_000n;
+const MS = 1_000_000n;
+const PIN = 18;
+
+let scheduler: VirtualScheduler;
+let simChip: SimulatedChip;
+let gpio: GPIO;
+let pwm: SoftwarePWM;
+
+beforeEach(() => {
+  scheduler = new VirtualScheduler(START_NS);
+  const sim = new GPIOSimulator({ scheduler });
+  simChip = sim.addChip();
+  gpio = new GPIO(simChip.path, { backend: sim, scheduler });
+  pwm = new SoftwarePWM(gpio.output(PIN), { dutyCycle: 0, frequencyHz: 50 });
+});
+
+afterEach(() => {
+  gpio.close();
+});
+
+/** Times of the pulses on the signal wire relative to the start, in milliseconds */
+function pulseTimes(): number[] {
+  return simChip
+    .history(PIN)
+    .filter((change) => change.value)
+    .map((change) => Number((change.timestampNs - START_NS) / MS));
+}
+
+describe("positions", () => {
+  test("map angles onto the calibrated pulse widths", () => {
+    const servo = new Servo(pwm, { minPulseUs: 500, maxPulseUs: 2500 });
+
+    servo.setAngle(90);
+    expect(servo.pulseWidthUs).toBeCloseTo(1500);
+    servo.setPosition(-1);
+    expect(servo.pulseWidthUs).toBeCloseTo(500);
+    expect(servo.angle).toBe(0);
+  });
+
+  test("pulse once per period until detached", () => {
+    const servo = new Servo(pwm, { initialAngle: 90 });
+
+    scheduler.advance(50);
+    servo.detach();
+    scheduler.advance(50);
+
+    // The first pulse starts on the next tick of the SoftwarePWM
+    expect(pulseTimes()).toEqual([1, 20, 40]);
+    expect(servo.attached).toBe(false);
+  });
+});
+
+describe("sweepTo", () => {
+  test("moves at the given speed, one step per period", async () => {
+    const servo = new Servo(pwm, { initialAngle: 0 });
+
+    const done = servo.sweepTo(90, { speed: 90 });
+    scheduler.advance(500);
+    expect(servo.angle).toBeCloseTo(45);
+    scheduler.advance(500);
+
+    await done;
+    expect(servo.angle).toBe(90);
+    expect(servo.sweeping).toBe(false);
+  });
+
+  test("resolves when another move takes over", async () => {
+    const servo = new Servo(pwm, { initialAngle: 0 });
+
+    const done = servo.sweepTo(180, { speed: 90 });
+    scheduler.advance(100);
+    servo.setAngle(30);
+    await done;
+
+    scheduler.advance(100);
+    expect(servo.angle).toBe(30);
+  });
+
+  test("stops where it is when aborted", async () => {
+    const servo = new Servo(pwm, { initialAngle: 0 });
+    const controller = new AbortController();
+
+    const done = servo.sweepTo(90, { speed: 90, signal: controller.signal });
+    scheduler.advance(200);
+    controller.abort(new Error("stopped"));
+    scheduler.advance(200);
+
+    await expect(done).rejects.toThrow("stopped");
+    expect(servo.angle).toBeCloseTo(18);
+  });
+
+  test("rejects when a step fails to write", async () => {
+    const servo = new Servo(pwm, { initialAngle: 0 });
+    const setDutyCycle = spyOn(pwm, "setDutyCycle").mockImplementation(() => {
+      throw new Error("write failed");
+    });
+
+    const done = servo.sweepTo(90, { speed: 90 });
+    scheduler.advance(100);
+
+    await expect(done).rejects.toThrow("write failed");
+    expect(servo.sweeping).toBe(false);
+    expect(setDutyCycle).toHaveBeenCalledTimes(1);
+    expect(servo.angle).toBe(0);
+  });
+
+  test("rejects when the PWM output is closed", async () => {
+    const servo = new Servo(pwm, { initialAngle: 0 });
+
+    const done = servo.sweepTo(90, { speed: 90 });
+    scheduler.advance(100);
+    pwm.close();
+    scheduler.advance(100);
+
+    await expect(done).rejects.toThrow(ClosedError);
+    expect(servo.sweeping).toBe(false);
+  });
+
+  test("rejects on close", async () => {
+    const servo = new Servo(pwm, { initialAngle: 0 });
+
+    const done = servo.sweepTo(90, { speed: 90 });
+    scheduler.advance(100);
+    servo.close();
+
+    await expect(done).rejects.toThrow(ClosedError);
+    expect(pwm.dutyCycle).toBe(0);
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Hobby servos on hardware or software PWM
+ *
+ * A Servo sets the PWM frequency for the servo (50 Hz by default) and maps
+ * angles, or positions from -1 to 1, onto pulse widths between a calibrated
+ * minimum and maximum. Sweeps move the servo at a given speed, one step per
+ * PWM period. Detaching sets the duty cycle to 0, so the servo stops holding
+ * its position and stops jittering.
+ *
+ * A SoftwarePWM only switches its output once per millisecond, which is
+ * coarse for servo pulses of 1 to 2 ms; use a hardware PWMChannel where
+ * precise positioning matters.
+ *
+ * @example
+ * ```typescript
+ * const servo = new Servo(pwm.channel(0), { minPulseUs: 500, maxPulseUs: 2400 });
+ * servo.setAngle(90);
+ * await servo.sweepTo(180, { speed: 60 });
+ * servo.detach();
+ * ```
+ */
+
+import type { PWMChannel } from "./pwm";
+import { SoftwarePWM } from "./software-pwm";
+import { ClosedError, InvalidArgumentError } from "./errors";
+import { systemScheduler, type Scheduler, type TimerHandle } from "./scheduler";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** How angles map onto pulse widths */
+export interface ServoCalibration {
+  /** Pulse width at the minimum angle, in microseconds (default: 1000) */
+  minPulseUs?: number;
+  /** Pulse width at the maximum angle, in microseconds (default: 2000) */
+  maxPulseUs?: number;
+  /** Smallest angle in degrees (default: 0) */
+  minAngle?: number;
+  /** Largest angle in degrees (default: 180) */
+  maxAngle?: number;
+}
+
+/** Options for a servo */
+export interface ServoOptions extends ServoCalibration {
+  /** PWM frequency in Hz (default: 50) */
+  frequencyHz?: number;
+  /** Angle to move to at once (default: stay detached) */
+  initialAngle?: number;
+  /**
+   * Timers for sweeps (default: the scheduler of a SoftwarePWM, otherwise
+   * the system scheduler)
+   */
+  scheduler?: Scheduler;
+}
+
+/** Options for Servo.sweepTo() */
+export interface SweepOptions {
+  /** Speed in degrees per second */
+  speed: number;
+  /** Stops the sweep where it is when aborted */
+  signal?: AbortSignal;
+}
+
+/** Sweep in progress */
+interface Sweep {
+  timer: TimerHandle;
+  /** Settle the sweep promise */
+  finish: (error?: unknown) => void;
+}
+
+// =============================================================================
+// Servo Class
+// =============================================================================
+
+/**
+ * Hobby servo driven by a hardware PWMChannel or a SoftwarePWM
+ */
+export class Servo {
+  private readonly pwm: PWMChannel | SoftwarePWM;
+  private readonly scheduler: Scheduler;
+  private calibration: Required<ServoCalibration>;
+  private _angle: number | null = null;
+  /** Last angle set, kept while detached as the start of the next sweep */
+  private lastAngle: number | null = null;
+  private sweep: Sweep | null = null;
+  private _closed: boolean = false;
+
+  /**
+   * @param pwm PWM output connected to the signal wire of the servo
+   * @param options Frequency and calibration
+   * @throws {InvalidArgumentError} If the calibration is invalid
+   */
+  constructor(pwm: PWMChannel | SoftwarePWM, options: ServoOptions = {}) {
+    const { frequencyHz = 50, initialAngle, scheduler } = options;
+    this.pwm = pwm;
+    this.scheduler =
+      scheduler ??
+      (pwm instanceof SoftwarePWM ? pwm.scheduler : systemScheduler);
+    this.calibration = {
+      minPulseUs: 1000,
+      maxPulseUs: 2000,
+      minAngle: 0,
+      maxAngle: 180,
+    };
+
+    pwm.setDutyCycle(0);
+    pwm.setFrequency(frequencyHz);
+    this.calibrate(options);
+
+    if (initialAngle !== undefined) {
+      this.setAngle(initialAngle);
+    }
+  }
+
+  /** Current angle in degrees, null while detached */
+  get angle(): number | null {
+    return this._angle;
+  }
+
+  /** Current position from -1 (minimum angle) to 1, null while detached */
+  get position(): number | null {
+    if (this._angle === null) {
+      return null;
+    }
+    const { minAngle, maxAngle } = this.calibration;
+    return ((this._angle - minAngle) / (maxAngle - minAngle)) * 2 - 1;
+  }
+
+  /** Current pulse width in microseconds, 0 while detached */
+  get pulseWidthUs(): number {
+    return (this.pwm.dutyCycle * this.pwm.periodNs) / 1000;
+  }
+
+  /** Whether the servo is receiving pulses */
+  get attached(): boolean {
+    return this._angle !== null || this.pwm.dutyCycle > 0;
+  }
+
+  /** Whether a sweep is in progress */
+  get sweeping(): boolean {
+    return this.sweep !== null;
+  }
+
+  /** Whether the servo has been closed */
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  private checkClosed(): void {
+    if (this._closed) {
+      throw new ClosedError("Servo is closed");
+    }
+  }
+
+  /**
+   * Change how angles map onto pulse widths. Options that are left out keep
+   * their current value; the servo moves to keep its angle.
+   */
+  calibrate(calibration: ServoCalibration): this {
+    this.checkClosed();
+    const next = { ...this.calibration };
+    for (const key of Object.keys(next) as (keyof ServoCalibration)[]) {
+      const value = calibration[key];
+      if (value !== undefined) {
+        if (!Number.isFinite(value)) {
+          throw new InvalidArgumentError(`${key} must be a finite number`);
+        }
+        next[key] = value;
+      }
+    }
+    if (!(next.minPulseUs > 0 && next.minPulseUs < next.maxPulseUs)) {
+      throw new InvalidArgumentError(
+        "Pulse widths must be positive, with minPulseUs below maxPulseUs"
+      );
+    }
+    if (!(next.minAngle < next.maxAngle)) {
+      throw new InvalidArgumentError("minAngle must be below maxAngle");
+    }
+    if (next.maxPulseUs * 1000 > this.pwm.periodNs) {
+      throw new InvalidArgumentError(
+        `Pulses of ${next.maxPulseUs} µs do not fit in the PWM period`
+      );
+    }
+
+    this.calibration = next;
+    if (this.lastAngle !== null) {
+      this.lastAngle = this.clampAngle(this.lastAngle);
+    }
+    if (this._angle !== null) {
+      this.write(this.clampAngle(this._angle));
+    }
+    return this;
+  }
+
+  private clampAngle(angle: number): number {
+    const { minAngle, maxAngle } = this.calibration;
+    return Math.min(Math.max(angle, minAngle), maxAngle);
+  }
+
+  private validateAngle(angle: number): void {
+    const { minAngle, maxAngle } = this.calibration;
+    if (!(angle >= minAngle && angle <= maxAngle)) {
+      throw new InvalidArgumentError(
+        `Angle must be between ${minAngle} and ${maxAngle}`
+      );
+    }
+  }
+
+  /** Output the pulse width for an angle */
+  private write(angle: number): void {
+    const { minPulseUs, maxPulseUs, minAngle, maxAngle } = this.calibration;
+    const ratio = (angle - minAngle) / (maxAngle - minAngle);
+    const pulseUs = minPulseUs + ratio * (maxPulseUs - minPulseUs);
+    this.pwm.setDutyCycle((pulseUs * 1000) / this.pwm.periodNs);
+    this._angle = angle;
+    this.lastAngle = angle;
+  }
+
+  /**
+   * Move to an angle at once, stopping any sweep
+   * @param angle Angle in degrees, within the calibrated range
+   */
+  setAngle(angle: number): this {
+    this.checkClosed();
+    this.validateAngle(angle);
+    this.stopSweep();
+    this.write(angle);
+    return this;
+  }
+
+  /**
+   * Move to a position at once, stopping any sweep
+   * @param position -1 for the minimum angle, 0 for the center, 1 for the maximum
+   */
+  setPosition(position: number): this {
+    this.checkClosed();
+    if (!(position >= -1 && position <= 1)) {
+      throw new InvalidArgumentError("Position must be between -1 and 1");
+    }
+    const { minAngle, maxAngle } = this.calibration;
+    return this.setAngle(
+      minAngle + ((position + 1) / 2) * (maxAngle - minAngle)
+    );
+  }
+
+  /**
+   * Output a pulse width directly, for finding the limits of a servo.
+   * Stops any sweep; the angle becomes unknown until the next setAngle().
+   * @param pulseUs Pulse width in microseconds, within the PWM period
+   */
+  setPulseWidth(pulseUs: number): this {
+    this.checkClosed();
+    if (!(pulseUs >= 0 && pulseUs * 1000 <= this.pwm.periodNs)) {
+      throw new InvalidArgumentError("Pulse width must fit in the PWM period");
+    }
+    this.stopSweep();
+    this.pwm.setDutyCycle((pulseUs * 1000) / this.pwm.periodNs);
+    this._angle = null;
+    this.lastAngle = null;
+    return this;
+  }
+
+  /**
+   * Move to an angle at a limited speed, one step per PWM period.
+   * A detached servo without a previous angle jumps to the target.
+   * @param angle Target angle in degrees, within the calibrated range
+   * @returns Resolves once the angle is reached, or when another move or
+   *   detach() takes over
+   * @throws The abort reason if the signal is aborted first
+   * @throws {ClosedError} If the servo or its PWM output is closed first
+   * @throws The error of the PWM output if a step fails to write, leaving
+   *   the servo where the last step put it
+   */
+  sweepTo(angle: number, options: SweepOptions): Promise<void> {
+    this.checkClosed();
+    this.validateAngle(angle);
+    const { speed, signal } = options;
+    if (!(speed > 0)) {
+      throw new InvalidArgumentError("Sweep speed must be greater than 0");
+    }
+    signal?.throwIfAborted();
+    this.stopSweep();
+
+    const start = this._angle ?? this.lastAngle;
+    if (start === null || start === angle) {
+      this.write(angle);
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const startNs = this.scheduler.nowNs();
+      const durationMs = (Math.abs(angle - start) / speed) * 1000;
+      const periodMs = 1000 / this.pwm.frequencyHz;
+
+      const onAbort = () => sweep.finish(signal!.reason);
+      const sweep: Sweep = {
+        timer: this.scheduler.setInterval(() => {
+          if (this.pwm.closed) {
+            sweep.finish(new ClosedError("PWM output of the servo is closed"));
+            return;
+          }
+          const elapsedMs = Number(this.scheduler.nowNs() - startNs) / 1e6;
+          try {
+            if (elapsedMs >= durationMs) {
+              this.write(angle);
+              sweep.finish();
+              return;
+            }
+            this.write(start + ((angle - start) * elapsedMs) / durationMs);
+          } catch (err) {
+            sweep.finish(err);
+          }
+        }, periodMs),
+        finish: (error?: unknown) => {
+          this.scheduler.clearInterval(sweep.timer);
+          signal?.removeEventListener("abort", onAbort);
+          if (this.sweep === sweep) {
+            this.sweep = null;
+          }
+          if (error === undefined) {
+            resolve();
+          } else {
+            reject(error);
+          }
+        },
+      };
+
+      this.sweep = sweep;
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private stopSweep(): void {
+    this.sweep?.finish();
+  }
+
+  /**
+   * Stop sending pulses, so the servo stops holding its position.
+   * Stops any sweep; the next sweep starts from the last angle.
+   */
+  detach(): this {
+    this.checkClosed();
+    this.stopSweep();
+    this.pwm.setDutyCycle(0);
+    this._angle = null;
+    return this;
+  }
+
+  /**
+   * Detach the servo. A sweep in progress is stopped first and its promise
+   * rejects with a ClosedError. The PWM output itself stays open.
+   */
+  close(): void {
+    if (this._closed) {
+      return;
+    }
+    this.sweep?.finish(new ClosedError("Servo was closed during a sweep"));
+    if (!this.pwm.closed) {
+      this.pwm.setDutyCycle(0);
+    }
+    this._angle = null;
+    this._closed = true;
+  }
+
+  /** Detach when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  /** Detach when leaving an `await using` block */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.close();
+  }
+}
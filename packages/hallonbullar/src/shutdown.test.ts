@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { GPIO } from "./gpio";
+import { GPIOSimulator, type SimulatedChip } from "./gpio-simulator";
+import { VirtualScheduler } from "./scheduler";
+import {
+  disableSafeShutdown,
+  enableSafeShutdown,
+  releaseAll,
+  trackResource,
+  type ShutdownReason,
+} from "./shutdown";
+
+let simChip: SimulatedChip;
+let gpio: GPIO;
+
+beforeEach(() => {
+  const scheduler = new VirtualScheduler();
+  const sim = new GPIOSimulator({ scheduler });
+  simChip = sim.addChip();
+  gpio = new GPIO(simChip.path, { backend: sim, scheduler });
+});
+
+afterEach(() => {
+  disableSafeShutdown();
+  gpio.close();
+});
+
+/** A resource that fails to reach its safe state */
+function failingResource(error: Error) {
+  const resource = {
+    closed: false,
+    applySafeState: () => {
+      throw error;
+    },
+    close: () => {
+      resource.closed = true;
+    },
+  };
+  trackResource(resource);
+  return resource;
+}
+
+describe("releaseAll", () => {
+  test("drives outputs to their safe value, then releases them", () => {
+    const relay = gpio.output(17, { safeValue: false });
+    relay.on();
+
+    releaseAll();
+
+    expect(simChip.history(17).map((change) => change.value)).toEqual([
+      false,
+      true,
+      false,
+    ]);
+    expect(gpio.closed).toBe(true);
+  });
+
+  test("releases everything before throwing the errors together", () => {
+    const error = new Error("stuck");
+    const failing = failingResource(error);
+    gpio.output(17, { safeValue: false }).on();
+
+    let thrown: unknown;
+    try {
+      releaseAll();
+    } catch (err) {
+      thrown = err;
+    }
+
+    expect(thrown).toBeInstanceOf(AggregateError);
+    expect((thrown as AggregateError).errors).toEqual([error]);
+    expect(failing.closed).toBe(true);
+    expect(simChip.level(17)).toBe(false);
+    expect(gpio.closed).toBe(true);
+  });
+
+  test("releases each resource once", () => {
+    const failing = failingResource(new Error("stuck"));
+
+    expect(() => releaseAll()).toThrow(AggregateError);
+    expect(() => releaseAll()).not.toThrow();
+    expect(failing.closed).toBe(true);
+  });
+});
+
+describe("enableSafeShutdown", () => {
+  test("releases everything once the process runs out of work", () => {
+    const reasons: ShutdownReason[] = [];
+    enableSafeShutdown({ onShutdown: (reason) => reasons.push(reason) });
+
+    process.emit("beforeExit", 0);
+
+    expect(gpio.closed).toBe(true);
+    expect(reasons).toEqual(["beforeExit"]);
+  });
+
+  test("reports the errors of the shutdown to onError", () => {
+    const error = new Error("stuck");
+    failingResource(error);
+    const errors: unknown[] = [];
+    enableSafeShutdown({
+      onShutdown: () => {
+        throw new Error("callback failed");
+      },
+      onError: (err) => errors.push(err),
+    });
+
+    process.emit("beforeExit", 0);
+
+    expect(errors).toHaveLength(2);
+    expect((errors[0] as AggregateError).errors).toEqual([error]);
+    expect((errors[1] as Error).message).toBe("callback failed");
+    expect(gpio.closed).toBe(true);
+  });
+
+  test("is removed by disableSafeShutdown()", () => {
+    enableSafeShutdown();
+    disableSafeShutdown();
+
+    process.emit("beforeExit", 0);
+
+    expect(gpio.closed).toBe(false);
+  });
+});
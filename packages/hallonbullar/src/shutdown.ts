@@ -0,0 +1,210 @@
+/**
+ * Process-wide safe shutdown
+ *
+ * Every GPIO chip, PWM chip and SoftwarePWM registers itself here while it is
+ * open. Once enabled, the shutdown manager puts outputs into their declared
+ * safe state and releases everything when the process is interrupted,
+ * terminated, crashes or runs out of work.
+ *
+ * @example
+ * ```typescript
+ * enableSafeShutdown();
+ *
+ * const chip = new GPIO("/dev/gpiochip0");
+ * const relay = chip.output(17, { safeValue: false });
+ * relay.on();
+ * // Ctrl+C, `kill` or an uncaught exception turns the relay off
+ * ```
+ */
+
+import { constants } from "os";
+import { reportError, type ErrorCallback } from "./errors";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Why the shutdown manager released the open resources */
+export type ShutdownReason =
+  | NodeJS.Signals
+  | "uncaughtException"
+  | "beforeExit"
+  | "exit";
+
+/** Options for enableSafeShutdown() */
+export interface SafeShutdownOptions {
+  /** Signals that trigger a shutdown (default: SIGINT and SIGTERM) */
+  signals?: NodeJS.Signals[];
+  /** Called after everything has been released, before the process exits */
+  onShutdown?: (reason: ShutdownReason) => void;
+  /**
+   * Called with the errors of a shutdown: an AggregateError from
+   * releaseAll(), or an error thrown by onShutdown (default: rethrown as an
+   * uncaught exception)
+   */
+  onError?: ErrorCallback;
+}
+
+/**
+ * A resource released by the shutdown manager
+ * @internal
+ */
+export interface ManagedResource {
+  /** Drive outputs to their safe state before release */
+  applySafeState(): void;
+  close(): void;
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const resources: Set<ManagedResource> = new Set();
+
+/**
+ * Track an open resource
+ * @internal
+ */
+export function trackResource(resource: ManagedResource): void {
+  resources.add(resource);
+}
+
+/**
+ * Stop tracking a resource once it has been closed
+ * @internal
+ */
+export function untrackResource(resource: ManagedResource): void {
+  resources.delete(resource);
+}
+
+// =============================================================================
+// Shutdown Manager
+// =============================================================================
+
+let handlers: {
+  signals: NodeJS.Signals[];
+  onSignal: (signal: NodeJS.Signals) => void;
+  onException: () => void;
+  onBeforeExit: () => void;
+  onExit: () => void;
+} | null = null;
+let shutdownCallback: SafeShutdownOptions["onShutdown"];
+let errorCallbacks: ErrorCallback[] = [];
+let shutDown = false;
+
+/**
+ * Apply safe states and release every open resource.
+ * Resources opened after this call are tracked again, so it can run more
+ * than once, but each resource is only released once.
+ * @throws {AggregateError} With the error of every resource that failed,
+ *   once all of them have been handled
+ */
+export function releaseAll(): void {
+  const open = [...resources];
+  resources.clear();
+  const errors: unknown[] = [];
+
+  for (const resource of open) {
+    try {
+      resource.applySafeState();
+    } catch (err) {
+      errors.push(err);
+    }
+  }
+  for (const resource of open) {
+    try {
+      resource.close();
+    } catch (err) {
+      errors.push(err);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AggregateError(
+      errors,
+      "Failed to apply safe states or release resources"
+    );
+  }
+}
+
+function shutdown(reason: ShutdownReason): void {
+  try {
+    releaseAll();
+  } catch (err) {
+    reportError(errorCallbacks, err);
+  }
+  if (shutDown) {
+    return;
+  }
+  shutDown = true;
+  if (shutdownCallback) {
+    try {
+      shutdownCallback(reason);
+    } catch (err) {
+      reportError(errorCallbacks, err);
+    }
+  }
+}
+
+/**
+ * Release all GPIO and PWM resources on SIGINT, SIGTERM, uncaught
+ * exceptions and process exit. Outputs with a `safeValue` and PWM channels
+ * with a `safeDutyCycle` are driven to that state first.
+ *
+ * After a signal the process exits with the conventional code (128 plus the
+ * signal number). Uncaught exceptions are still reported and end the
+ * process as usual.
+ */
+export function enableSafeShutdown(options: SafeShutdownOptions = {}): void {
+  disableSafeShutdown();
+
+  const { signals = ["SIGINT", "SIGTERM"], onShutdown, onError } = options;
+  shutdownCallback = onShutdown;
+  errorCallbacks = onError ? [onError] : [];
+  shutDown = false;
+
+  handlers = {
+    signals,
+    onSignal: (signal) => {
+      shutdown(signal);
+      // After the microtasks, so errors rethrown by the shutdown surface
+      queueMicrotask(() =>
+        process.exit(128 + (constants.signals[signal] ?? 0))
+      );
+    },
+    onException: () => shutdown("uncaughtException"),
+    onBeforeExit: () => shutdown("beforeExit"),
+    onExit: () => shutdown("exit"),
+  };
+
+  for (const signal of signals) {
+    process.on(signal, handlers.onSignal);
+  }
+  process.on("uncaughtExceptionMonitor", handlers.onException);
+  process.on("beforeExit", handlers.onBeforeExit);
+  process.on("exit", handlers.onExit);
+}
+
+/**
+ * Remove the handlers installed by enableSafeShutdown()
+ */
+export function disableSafeShutdown(): void {
+  if (!handlers) {
+    return;
+  }
+
+  for (const signal of handlers.signals) {
+    process.off(signal, handlers.onSignal);
+  }
+  process.off("uncaughtExceptionMonitor", handlers.onException);
+  process.off("beforeExit", handlers.onBeforeExit);
+  process.off("exit", handlers.onExit);
+  handlers = null;
+  shutdownCallback = undefined;
+  errorCallbacks = [];
+}
+
+/** Check whether enableSafeShutdown() is in effect */
+export function isSafeShutdownEnabled(): boolean {
+  return handlers !== null;
+}
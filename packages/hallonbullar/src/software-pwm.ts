@@ -1,5 +1,14 @@
 import type { GPIOOutput } from "./gpio";
 import type { PWMChannelOptions } from "./pwm";
+import { ClosedError, InvalidArgumentError } from "./errors";
+import { trackResource, untrackResource } from "./shutdown";
+import type { Scheduler, TimerHandle } from "./scheduler";
+
+/** Options for a software PWM */
+export interface SoftwarePWMOptions extends PWMChannelOptions {
+  /** Time source and timers (default: the scheduler of the output's chip) */
+  scheduler?: Scheduler;
+}
 
 /**
  * Software PWM using a fixed-rate tick approach.
@@ -10,11 +19,13 @@ import type { PWMChannelOptions } from "./pwm";
  */
 export class SoftwarePWM {
   private readonly output: GPIOOutput;
+  /** @internal */
+  readonly scheduler: Scheduler;
   private _dutyCycle: number;
   private _frequencyHz: number;
   private _closed: boolean = false;
 
-  private timer: ReturnType<typeof setInterval> | null = null;
+  private timer: TimerHandle | null = null;
   private cycleStartNs: number = 0;
   private lastState: boolean = false;
 
@@ -23,22 +34,27 @@ export class SoftwarePWM {
 
   constructor(
     output: GPIOOutput,
-    options: PWMChannelOptions = { dutyCycle: 0.5, frequencyHz: 100 }
+    options: SoftwarePWMOptions = { dutyCycle: 0.5, frequencyHz: 100 }
   ) {
     this.output = output;
+    this.scheduler = options.scheduler ?? output.scheduler;
     this._dutyCycle = options.dutyCycle ?? 0.5;
     this._frequencyHz = options.frequencyHz ?? 100;
 
     // Validate inputs
     if (this._dutyCycle < 0 || this._dutyCycle > 1) {
-      throw new Error("Duty cycle must be between 0 and 1");
+      throw new InvalidArgumentError("Duty cycle must be between 0 and 1");
     }
     if (this._frequencyHz <= 0) {
-      throw new Error("Frequency must be greater than 0");
+      throw new InvalidArgumentError("Frequency must be greater than 0");
     }
 
+    // Stop before the output is closed or changes direction
+    output.addDependent(this);
+    trackResource(this);
+
     // Auto-start the PWM
-    this.cycleStartNs = Bun.nanoseconds();
+    this.cycleStartNs = Number(this.scheduler.nowNs());
     this.start();
   }
 
@@ -64,7 +80,9 @@ export class SoftwarePWM {
 
   private checkClosed(): void {
     if (this._closed) {
-      throw new Error("SoftwarePWM has been closed");
+      throw new ClosedError("SoftwarePWM has been closed", {
+        pin: this.output.pin,
+      });
     }
   }
 
@@ -75,7 +93,7 @@ export class SoftwarePWM {
   setDutyCycle(ratio: number): this {
     this.checkClosed();
     if (ratio < 0 || ratio > 1) {
-      throw new Error("Duty cycle must be between 0 and 1");
+      throw new InvalidArgumentError("Duty cycle must be between 0 and 1");
     }
 
     this._dutyCycle = ratio;
@@ -89,7 +107,7 @@ export class SoftwarePWM {
   setFrequency(frequencyHz: number): this {
     this.checkClosed();
     if (frequencyHz <= 0) {
-      throw new Error("Frequency must be greater than 0");
+      throw new InvalidArgumentError("Frequency must be greater than 0");
     }
 
     this._frequencyHz = frequencyHz;
@@ -98,7 +116,10 @@ export class SoftwarePWM {
 
   private start(): void {
     // Use setInterval for a fixed-rate tick
-    this.timer = setInterval(() => this.tick(), SoftwarePWM.TICK_INTERVAL_MS);
+    this.timer = this.scheduler.setInterval(
+      () => this.tick(),
+      SoftwarePWM.TICK_INTERVAL_MS
+    );
     // Run first tick immediately
     this.tick();
   }
@@ -122,7 +143,7 @@ export class SoftwarePWM {
       return;
     }
 
-    const now = Bun.nanoseconds();
+    const now = Number(this.scheduler.nowNs());
     const periodNs = 1_000_000_000 / this._frequencyHz;
 
     // Calculate position within the current cycle (0 to 1)
@@ -148,17 +169,40 @@ export class SoftwarePWM {
   }
 
   /**
-   * Stop the PWM and release resources
+   * Stop driving the output, so its own safe value applies on shutdown
+   * @internal
+   */
+  applySafeState(): void {
+    this.close();
+  }
+
+  /**
+   * Stop the PWM and turn the output off. The output itself stays open.
+   * Calling close() again has no effect.
    */
   close(): void {
     if (!this._closed) {
       this._closed = true;
-      if (this.timer) {
-        clearInterval(this.timer);
+      if (this.timer !== null) {
+        this.scheduler.clearInterval(this.timer);
         this.timer = null;
       }
-      this.output.write(false);
+      this.output.removeDependent(this);
+      untrackResource(this);
+      if (!this.output.closed) {
+        this.output.write(false);
+      }
       this.lastState = false;
     }
   }
+
+  /** Close when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  /** Close when leaving an `await using` block */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.close();
+  }
 }
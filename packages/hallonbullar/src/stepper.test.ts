@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { ClosedError } from "./errors";
+import { GPIO } from "./gpio";
+import { GPIOSimulator, type SimulatedChip } from "./gpio-simulator";
+import { VirtualScheduler } from "./scheduler";
+import { Stepper } from "./stepper";
+
+const START_NS = 1_000_000_000n;
+const MS = 1_000_000n;
+const COILS: [number, number, number, number] = [5, 6, 13, 19];
+const STEP = 20;
+const DIR = 21;
+const ENABLE = 16;
+
+let scheduler: VirtualScheduler;
+let simChip: SimulatedChip;
+let gpio: GPIO;
+
+beforeEach(() => {
+  scheduler = new VirtualScheduler(START_NS);
+  const sim = new GPIOSimulator({ scheduler });
+  simChip = sim.addChip();
+  gpio = new GPIO(simChip.path, { backend: sim, scheduler });
+});
+
+afterEach(() => {
+  gpio.close();
+});
+
+/** Times of the STEP pulses relative to the start, in milliseconds */
+function stepTimes(): number[] {
+  return simChip
+    .history(STEP)
+    .filter((change) => change.value)
+    .map((change) => Number((change.timestampNs - START_NS) / MS));
+}
+
+/** Coils that are energized, as a bit mask with bit 0 for IN1 */
+function coilPattern(): number {
+  return COILS.reduce(
+    (pattern, pin, bit) =>
+      simChip.level(pin) ? pattern | (1 << bit) : pattern,
+    0
+  );
+}
+
+describe("moves", () => {
+  test("step at the maximum speed without an acceleration", async () => {
+    const motor = new Stepper(gpio, { step: STEP, dir: DIR, maxSpeed: 100 });
+
+    const done = motor.moveBy(3);
+    scheduler.advance(30);
+
+    expect(await done).toBe(3);
+    expect(stepTimes()).toEqual([0, 10, 20]);
+    expect(motor.moving).toBe(false);
+  });
+
+  test("set DIR for the direction of the move", async () => {
+    const motor = new Stepper(gpio, { step: STEP, dir: DIR, maxSpeed: 100 });
+
+    const forward = motor.moveBy(1);
+    scheduler.advance(10);
+    await forward;
+    expect(simChip.level(DIR)).toBe(true);
+
+    const backward = motor.moveTo(-2);
+    scheduler.advance(30);
+    expect(await backward).toBe(-2);
+    expect(simChip.level(DIR)).toBe(false);
+    expect(stepTimes()).toHaveLength(4);
+  });
+
+  test("run the coils through the half-step sequence", async () => {
+    const motor = new Stepper(gpio, { coils: COILS, maxSpeed: 1000 });
+
+    const forward = motor.moveBy(3);
+    scheduler.advance(3);
+    await forward;
+    expect(coilPattern()).toBe(0b0110);
+
+    const backward = motor.moveBy(-4);
+    scheduler.advance(4);
+    await backward;
+    expect(coilPattern()).toBe(0b1001);
+    expect(motor.energized).toBe(true);
+  });
+
+  test("accelerate and slow down to stop on the target", async () => {
+    const motor = new Stepper(gpio, {
+      step: STEP,
+      dir: DIR,
+      maxSpeed: 200,
+      acceleration: 2000,
+    });
+
+    const done = motor.moveBy(30);
+    scheduler.advance(1000);
+    expect(await done).toBe(30);
+
+    const times = stepTimes();
+    const intervals = times.slice(1).map((time, i) => time - times[i]!);
+    // Up to speed, a stretch at 5 ms a step, then down again
+    expect(intervals[0]!).toBeGreaterThan(intervals[1]!);
+    expect(intervals.slice(10, 19)).toEqual(Array(9).fill(5));
+    expect(intervals.at(-1)!).toBeGreaterThan(intervals.at(-2)!);
+    expect(motor.velocity).toBe(0);
+  });
+
+  test("de-energize the motor at rest with releaseWhenIdle", async () => {
+    const motor = new Stepper(gpio, {
+      step: STEP,
+      dir: DIR,
+      enable: ENABLE,
+      maxSpeed: 100,
+      releaseWhenIdle: true,
+    });
+
+    const done = motor.moveBy(2);
+    scheduler.advance(0);
+    expect(simChip.level(ENABLE)).toBe(false); // active low
+
+    scheduler.advance(20);
+    await done;
+    expect(simChip.level(ENABLE)).toBe(true);
+    expect(motor.energized).toBe(false);
+  });
+});
+
+describe("stopping", () => {
+  test("halts at once when the signal is aborted", async () => {
+    const motor = new Stepper(gpio, { step: STEP, dir: DIR, maxSpeed: 100 });
+    const controller = new AbortController();
+
+    const done = motor.moveBy(10, { signal: controller.signal });
+    scheduler.advance(15);
+    controller.abort(new Error("stopped"));
+
+    await expect(done).rejects.toThrow("stopped");
+    expect(motor.position).toBe(2);
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+
+  test("rejects the move when the lines are closed under the motor", async () => {
+    const motor = new Stepper(gpio, { step: STEP, dir: DIR, maxSpeed: 100 });
+
+    const done = motor.moveBy(100);
+    scheduler.advance(25);
+    gpio.close();
+    scheduler.advance(10);
+
+    await expect(done).rejects.toThrow(ClosedError);
+    expect(motor.position).toBe(3);
+    expect(motor.moving).toBe(false);
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+
+  test("rejects pending moves on close", async () => {
+    const motor = new Stepper(gpio, { coils: COILS });
+
+    const done = motor.moveBy(100);
+    scheduler.advance(10);
+    motor.close();
+
+    await expect(done).rejects.toThrow(ClosedError);
+    expect(coilPattern()).toBe(0);
+    expect(scheduler.pendingTimers).toBe(0);
+  });
+});
+
+describe("home", () => {
+  test("moves until the limit switch is active", async () => {
+    const motor = new Stepper(gpio, { step: STEP, dir: DIR });
+    const limit = gpio.input(26, { bias: "pull-up", activeLow: true });
+    motor.reset(500);
+
+    const done = motor.home(limit, { speed: 100, position: 10 });
+    scheduler.advance(35);
+    simChip.drive(26, false);
+    scheduler.advance(10);
+
+    expect(await done).toBe(10);
+    expect(stepTimes()).toEqual([0, 10, 20, 30]);
+    expect(simChip.level(DIR)).toBe(false);
+  });
+
+  test("gives up after maxSteps", async () => {
+    const motor = new Stepper(gpio, { step: STEP, dir: DIR });
+    const limit = gpio.input(26, { bias: "pull-up", activeLow: true });
+
+    const done = motor.home(limit, { speed: 100, maxSteps: 3 });
+    scheduler.advance(100);
+
+    await expect(done).rejects.toThrow("not reached within 3 steps");
+    expect(motor.position).toBe(-3);
+  });
+});
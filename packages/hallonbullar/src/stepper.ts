@@ -0,0 +1,680 @@
+/**
+ * Stepper motors on GPIO outputs
+ *
+ * A Stepper drives the coils of a unipolar motor through a ULN2003 board
+ * (wave, full-step or half-step sequences), or a step/dir driver such as an
+ * A4988 or DRV8825. Moves follow a trapezoidal speed profile, accelerating
+ * up to the maximum speed and slowing down in time to stop on the target.
+ * Steps are timed with the scheduler of the chip, so the step rate is
+ * limited by the timer resolution of about one millisecond.
+ *
+ * @example
+ * ```typescript
+ * const motor = new Stepper(chip, { coils: [5, 6, 13, 19], mode: "half" });
+ * await motor.moveBy(4096); // one turn of a 28BYJ-48
+ *
+ * const axis = new Stepper(chip, { step: 20, dir: 21, enable: 16, maxSpeed: 800, acceleration: 2000 });
+ * await axis.home(chip.input(26, { bias: "pull-up", activeLow: true }));
+ * await axis.moveTo(1600);
+ * ```
+ */
+
+import type { GPIO, GPIOGroup, GPIOInput, GPIOOutput } from "./gpio";
+import { ClosedError, HallonbullarError, InvalidArgumentError } from "./errors";
+import type { Scheduler, TimerHandle } from "./scheduler";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Coil sequence of a unipolar motor */
+export type CoilMode = "wave" | "full" | "half";
+
+/** How a stepper is driven */
+export type StepperMode = CoilMode | "step-dir";
+
+/** Speed profile shared by both kinds of stepper */
+export interface StepperMotionOptions {
+  /** Top speed in steps per second (default: 500) */
+  maxSpeed?: number;
+  /**
+   * Acceleration in steps per second squared
+   * (default: start and stop at full speed)
+   */
+  acceleration?: number;
+  /** Deceleration in steps per second squared (default: acceleration) */
+  deceleration?: number;
+  /**
+   * Speed of the first and last step in steps per second
+   * (default: the speed reached one step after rest)
+   */
+  startSpeed?: number;
+  /** De-energize the motor whenever it stops (default: false) */
+  releaseWhenIdle?: boolean;
+}
+
+/** Options for a unipolar motor driven coil by coil, such as a 28BYJ-48 */
+export interface CoilStepperOptions extends StepperMotionOptions {
+  /** Pins of the four coil inputs, IN1 to IN4 */
+  coils: [number, number, number, number];
+  /** Coil sequence (default: "half") */
+  mode?: CoilMode;
+}
+
+/** Options for a motor behind a step/dir driver, such as an A4988 */
+export interface DriverStepperOptions extends StepperMotionOptions {
+  /** Pin of the STEP input */
+  step: number;
+  /** Pin of the DIR input */
+  dir: number;
+  /** Pin of the ENABLE input, if it is connected */
+  enable?: number;
+  /** Whether the driver is enabled by a low level (default: true) */
+  enableActiveLow?: boolean;
+  /** Swap the meaning of the DIR levels (default: false) */
+  invertDirection?: boolean;
+  /**
+   * Width of the STEP pulse in microseconds, also waited between a change of
+   * DIR and the next pulse (default: 2). Too short for a timer, the pulse is
+   * busy-waited and blocks the event loop for as long, so keep it to the few
+   * microseconds drivers need.
+   */
+  stepPulseUs?: number;
+}
+
+/** Options for a stepper motor */
+export type StepperOptions = CoilStepperOptions | DriverStepperOptions;
+
+/** Options for Stepper.moveTo() and Stepper.moveBy() */
+export interface StepperMoveOptions {
+  /** Stops the motor at once when aborted */
+  signal?: AbortSignal;
+}
+
+/** Options for Stepper.home() */
+export interface StepperHomeOptions extends StepperMoveOptions {
+  /** Direction to move in, towards the switch (default: -1) */
+  direction?: 1 | -1;
+  /** Speed in steps per second (default: the start speed) */
+  speed?: number;
+  /** Position at the switch (default: 0) */
+  position?: number;
+  /** Steps before giving up (default: no limit) */
+  maxSteps?: number;
+}
+
+/** Caller waiting for the motor to come to rest */
+interface MoveWaiter {
+  resolve: (position: number) => void;
+  reject: (error: unknown) => void;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Coil patterns, bit 0 for IN1, in the order of a positive step */
+const COIL_SEQUENCES: Record<CoilMode, readonly number[]> = {
+  wave: [0b0001, 0b0010, 0b0100, 0b1000],
+  full: [0b0011, 0b0110, 0b1100, 0b1001],
+  half: [0b0001, 0b0011, 0b0010, 0b0110, 0b0100, 0b1100, 0b1000, 0b1001],
+};
+
+/**
+ * Busy-wait for a delay too short for a timer, blocking the event loop.
+ * A virtual clock stands still while spinning, so the wait is also bounded
+ * by the real clock.
+ */
+function spin(scheduler: Scheduler, ns: bigint): void {
+  const end = scheduler.nowNs() + ns;
+  const realEnd = process.hrtime.bigint() + ns;
+  while (scheduler.nowNs() < end && process.hrtime.bigint() < realEnd) {
+    // Spin
+  }
+}
+
+/** Check that a speed or acceleration is a positive number */
+function validateRate(name: string, value: number | undefined): void {
+  if (value !== undefined && !(value > 0 && Number.isFinite(value))) {
+    throw new InvalidArgumentError(`${name} must be greater than 0`);
+  }
+}
+
+// =============================================================================
+// Stepper Class
+// =============================================================================
+
+/**
+ * Stepper motor with position tracking and acceleration
+ */
+export class Stepper {
+  private readonly scheduler: Scheduler;
+  private readonly _mode: StepperMode;
+  private readonly coils: GPIOGroup | null = null;
+  private readonly stepOutput: GPIOOutput | null = null;
+  private readonly dirOutput: GPIOOutput | null = null;
+  private readonly enableOutput: GPIOOutput | null = null;
+  private readonly invertDirection: boolean;
+  private readonly stepPulseNs: bigint = 0n;
+  private readonly maxSpeed: number;
+  private readonly acceleration: number | null;
+  private readonly deceleration: number | null;
+  private readonly startSpeed: number;
+  private readonly releaseWhenIdle: boolean;
+
+  private _position: number = 0;
+  private _target: number = 0;
+  /** Index in the coil sequence */
+  private phase: number = 0;
+  /** Rate of the last step in steps per second, 0 at rest */
+  private speed: number = 0;
+  private direction: 1 | -1 = 1;
+  private lastStepNs: bigint = 0n;
+  private timer: TimerHandle | null = null;
+  private waiters: MoveWaiter[] = [];
+  private homing: boolean = false;
+  private _energized: boolean = false;
+  private _closed: boolean = false;
+
+  /**
+   * @param chip Chip the driver is connected to
+   * @param options Wiring and speed profile
+   * @throws {InvalidArgumentError} If the options are invalid
+   * @throws {LineBusyError} If one of the lines is in use
+   */
+  constructor(chip: GPIO, options: StepperOptions) {
+    const {
+      maxSpeed = 500,
+      acceleration,
+      deceleration = acceleration,
+      releaseWhenIdle = false,
+    } = options;
+    validateRate("Maximum speed", maxSpeed);
+    validateRate("Acceleration", acceleration);
+    validateRate("Deceleration", deceleration);
+    validateRate("Start speed", options.startSpeed);
+    if (deceleration !== undefined && acceleration === undefined) {
+      throw new InvalidArgumentError("Deceleration requires an acceleration");
+    }
+
+    this.scheduler = chip.scheduler;
+    this.maxSpeed = maxSpeed;
+    this.acceleration = acceleration ?? null;
+    this.deceleration = deceleration ?? null;
+    this.startSpeed = Math.min(
+      options.startSpeed ??
+        (acceleration !== undefined ? Math.sqrt(2 * acceleration) : maxSpeed),
+      maxSpeed
+    );
+    this.releaseWhenIdle = releaseWhenIdle;
+
+    if ("coils" in options) {
+      const { coils, mode = "half" } = options;
+      if (!(mode in COIL_SEQUENCES)) {
+        throw new InvalidArgumentError(`Invalid coil mode: ${mode}`);
+      }
+      if (coils.length !== 4 || new Set(coils).size !== 4) {
+        throw new InvalidArgumentError(
+          "A stepper needs four different coil pins"
+        );
+      }
+      this._mode = mode;
+      this.invertDirection = false;
+      this.coils = chip.group(coils, {
+        direction: "output",
+        initialValue: 0,
+        safeValue: 0,
+      });
+      return;
+    }
+
+    const {
+      step,
+      dir,
+      enable,
+      enableActiveLow = true,
+      stepPulseUs = 2,
+    } = options;
+    const pins = enable === undefined ? [step, dir] : [step, dir, enable];
+    if (new Set(pins).size !== pins.length) {
+      throw new InvalidArgumentError("Stepper pins must be different");
+    }
+    if (!(stepPulseUs >= 0 && Number.isFinite(stepPulseUs))) {
+      throw new InvalidArgumentError("Step pulse width must not be negative");
+    }
+    this._mode = "step-dir";
+    this.invertDirection = options.invertDirection ?? false;
+    this.stepPulseNs = BigInt(Math.round(stepPulseUs * 1000));
+
+    // Release the lines already requested if a later one fails
+    const outputs: GPIOOutput[] = [];
+    try {
+      this.stepOutput = chip.output(step, { safeValue: false });
+      outputs.push(this.stepOutput);
+      this.dirOutput = chip.output(dir);
+      outputs.push(this.dirOutput);
+      if (enable !== undefined) {
+        this.enableOutput = chip.output(enable, {
+          activeLow: enableActiveLow,
+          safeValue: false,
+        });
+      }
+    } catch (err) {
+      for (const output of outputs) {
+        output.close();
+      }
+      throw err;
+    }
+  }
+
+  /** How the motor is driven */
+  get mode(): StepperMode {
+    return this._mode;
+  }
+
+  /** Current position in steps */
+  get position(): number {
+    return this._position;
+  }
+
+  /** Position the motor is moving to */
+  get target(): number {
+    return this._target;
+  }
+
+  /** Whether the motor is moving */
+  get moving(): boolean {
+    return this.timer !== null;
+  }
+
+  /** Current speed in steps per second, negative when moving backwards */
+  get velocity(): number {
+    return this.speed * this.direction;
+  }
+
+  /** Whether the coils are energized or the driver is enabled */
+  get energized(): boolean {
+    return this._energized;
+  }
+
+  /** Whether the stepper has been closed */
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  private checkClosed(): void {
+    if (this._closed) {
+      throw new ClosedError("Stepper is closed");
+    }
+  }
+
+  /**
+   * Move to an absolute position. Calling it again while moving changes
+   * the target without stopping first.
+   * @param position Target position in steps
+   * @returns Resolves with the position once the motor comes to rest,
+   *   which is elsewhere if the target changes or the motor is stopped
+   * @throws The abort reason if the signal is aborted first
+   */
+  moveTo(position: number, options: StepperMoveOptions = {}): Promise<number> {
+    this.checkClosed();
+    if (!Number.isInteger(position)) {
+      throw new InvalidArgumentError("Position must be an integer");
+    }
+    if (this.homing) {
+      throw new InvalidArgumentError("Stepper is homing");
+    }
+    const { signal } = options;
+    signal?.throwIfAborted();
+
+    this._target = position;
+    const done = this.waitForRest(signal);
+    if (this.timer === null) {
+      this.energize();
+      this.lastStepNs = this.scheduler.nowNs();
+      this.timer = this.scheduler.setTimeout(() => this.tick(), 0);
+    }
+    return done;
+  }
+
+  /**
+   * Move by a number of steps from the current target
+   * @param steps Steps to move, negative to move backwards
+   * @returns Resolves with the position once the motor comes to rest
+   */
+  moveBy(steps: number, options: StepperMoveOptions = {}): Promise<number> {
+    return this.moveTo(this._target + steps, options);
+  }
+
+  private waitForRest(signal: AbortSignal | undefined): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+        }
+        this.halt();
+        reject(signal!.reason);
+      };
+      const waiter: MoveWaiter = {
+        resolve: (position) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(position);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /** Take the next step of a move and schedule the one after */
+  private tick(): void {
+    this.timer = null;
+    try {
+      this.advance();
+    } catch (err) {
+      // The lines failed or were released under the motor
+      if (this.timer !== null) {
+        this.scheduler.clearTimeout(this.timer);
+        this.timer = null;
+      }
+      this.speed = 0;
+      this._target = this._position;
+      const waiters = this.waiters;
+      this.waiters = [];
+      for (const waiter of waiters) {
+        waiter.reject(err);
+      }
+    }
+  }
+
+  /** Step towards the target at the speed of the profile */
+  private advance(): void {
+    const distance = this._target - this._position;
+    if (distance === 0) {
+      this.finish();
+      return;
+    }
+    const towards: 1 | -1 = distance > 0 ? 1 : -1;
+
+    let speed: number | null = null;
+    if (this.acceleration === null || this.deceleration === null) {
+      this.direction = towards;
+      speed = this.maxSpeed;
+    } else if (this.speed > 0 && towards !== this.direction) {
+      // The target is behind: slow down before turning around
+      const slower = Math.sqrt(this.speed ** 2 - 2 * this.deceleration);
+      if (slower >= this.startSpeed) {
+        speed = slower;
+      } else {
+        this.speed = 0;
+      }
+    }
+    if (speed === null) {
+      this.direction = towards;
+      const accelerated =
+        this.speed === 0
+          ? this.startSpeed
+          : Math.sqrt(this.speed ** 2 + 2 * this.acceleration!);
+      // Slow enough to stop on the target with the remaining steps
+      const stoppable = Math.sqrt(
+        this.startSpeed ** 2 + 2 * this.deceleration! * (Math.abs(distance) - 1)
+      );
+      speed = Math.max(
+        Math.min(accelerated, stoppable, this.maxSpeed),
+        this.startSpeed
+      );
+    }
+
+    this.step(this.direction);
+    this.speed = speed;
+
+    // Time steps from the previous one so timer latency does not add up
+    const now = this.scheduler.nowNs();
+    const dueNs = this.lastStepNs + BigInt(Math.round(1e9 / speed));
+    this.lastStepNs = now > dueNs ? now : dueNs;
+    this.timer = this.scheduler.setTimeout(
+      () => this.tick(),
+      Number(this.lastStepNs - now) / 1e6
+    );
+  }
+
+  /** Drive the outputs for one step */
+  private step(direction: 1 | -1): void {
+    if (this.coils) {
+      const sequence = COIL_SEQUENCES[this._mode as CoilMode];
+      this.phase = (this.phase + direction + sequence.length) % sequence.length;
+      this.coils.writeAll(sequence[this.phase]!);
+    } else {
+      const forward = direction > 0 !== this.invertDirection;
+      if (this.dirOutput!.state !== forward) {
+        this.dirOutput!.write(forward);
+        // Drivers sample DIR on the STEP edge, give it time to settle
+        spin(this.scheduler, this.stepPulseNs);
+      }
+      this.stepOutput!.on();
+      spin(this.scheduler, this.stepPulseNs);
+      this.stepOutput!.off();
+    }
+    this._position += direction;
+  }
+
+  /** The motor came to rest */
+  private finish(): void {
+    this.speed = 0;
+    if (this.releaseWhenIdle) {
+      this.deenergize();
+    }
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      waiter.resolve(this._position);
+    }
+  }
+
+  /**
+   * Slow down and stop as soon as the deceleration allows
+   */
+  stop(): this {
+    this.checkClosed();
+    if (this.timer === null) {
+      return this;
+    }
+    let steps = 0;
+    if (this.deceleration !== null) {
+      const excess = this.speed ** 2 - this.startSpeed ** 2;
+      steps = Math.ceil(Math.max(excess, 0) / (2 * this.deceleration));
+    }
+    this._target = this._position + this.direction * steps;
+    return this;
+  }
+
+  /**
+   * Stop at once, without slowing down. Steps may be lost at high speed.
+   */
+  halt(): this {
+    this.checkClosed();
+    if (this.timer !== null) {
+      this.scheduler.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this._target = this._position;
+    this.finish();
+    return this;
+  }
+
+  /**
+   * Move towards a limit switch at constant speed until it is active, then
+   * set the position
+   * @param limit Input that reads true at the limit
+   * @returns Resolves with the position once the switch is reached
+   * @throws {HallonbullarError} If the switch is not reached within maxSteps
+   * @throws The abort reason if the signal is aborted first
+   */
+  home(limit: GPIOInput, options: StepperHomeOptions = {}): Promise<number> {
+    this.checkClosed();
+    const {
+      direction = -1,
+      speed = this.startSpeed,
+      position = 0,
+      maxSteps = Infinity,
+      signal,
+    } = options;
+    validateRate("Homing speed", speed);
+    if (!Number.isInteger(position)) {
+      throw new InvalidArgumentError("Position must be an integer");
+    }
+    if (this.moving || this.homing) {
+      throw new InvalidArgumentError("Stepper is already moving");
+    }
+    signal?.throwIfAborted();
+
+    this.homing = true;
+    this.energize();
+
+    return new Promise((resolve, reject) => {
+      let steps = 0;
+      let timer: TimerHandle | null = null;
+
+      const settle = (error: unknown | null) => {
+        if (timer !== null) {
+          this.scheduler.clearTimeout(timer);
+          timer = null;
+        }
+        signal?.removeEventListener("abort", onAbort);
+        this.homing = false;
+        this.speed = 0;
+        if (this.releaseWhenIdle && !this._closed) {
+          this.deenergize();
+        }
+        if (error === null) {
+          resolve(this._position);
+        } else {
+          reject(error);
+        }
+      };
+
+      const onAbort = () => settle(signal!.reason);
+
+      const next = () => {
+        timer = null;
+        if (this._closed) {
+          settle(new ClosedError("Stepper is closed"));
+          return;
+        }
+        try {
+          if (limit.read()) {
+            this._position = position;
+            this._target = position;
+            settle(null);
+            return;
+          }
+          if (steps >= maxSteps) {
+            settle(
+              new HallonbullarError(
+                `Limit switch on pin ${limit.pin} not reached within ${maxSteps} steps`,
+                { pin: limit.pin }
+              )
+            );
+            return;
+          }
+          this.direction = direction;
+          this.speed = speed;
+          this.step(direction);
+          steps++;
+        } catch (err) {
+          settle(err);
+          return;
+        }
+        timer = this.scheduler.setTimeout(next, 1000 / speed);
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      next();
+    });
+  }
+
+  /**
+   * Set the current position without moving
+   * @param position New position (default: 0)
+   */
+  reset(position: number = 0): this {
+    this.checkClosed();
+    if (!Number.isInteger(position)) {
+      throw new InvalidArgumentError("Position must be an integer");
+    }
+    if (this.moving || this.homing) {
+      throw new InvalidArgumentError("Cannot reset the position while moving");
+    }
+    this._position = position;
+    this._target = position;
+    return this;
+  }
+
+  /** Energize the coils or enable the driver, holding the position */
+  energize(): this {
+    this.checkClosed();
+    if (this.coils) {
+      this.coils.writeAll(COIL_SEQUENCES[this._mode as CoilMode][this.phase]!);
+    } else {
+      this.enableOutput?.on();
+    }
+    this._energized = true;
+    return this;
+  }
+
+  /**
+   * Stop at once and de-energize the coils or disable the driver, so the
+   * motor turns freely and stays cool
+   */
+  release(): this {
+    this.halt();
+    this.deenergize();
+    return this;
+  }
+
+  private deenergize(): void {
+    if (this.coils) {
+      this.coils.writeAll(0);
+    } else {
+      this.enableOutput?.off();
+    }
+    this._energized = false;
+  }
+
+  /**
+   * Stop at once, de-energize the motor and release the lines.
+   * Pending moves reject with a ClosedError.
+   */
+  close(): void {
+    if (this._closed) {
+      return;
+    }
+    if (this.timer !== null) {
+      this.scheduler.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.deenergize();
+    this._closed = true;
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      waiter.reject(new ClosedError("Stepper is closed"));
+    }
+
+    this.coils?.close();
+    this.stepOutput?.close();
+    this.dirOutput?.close();
+    this.enableOutput?.close();
+  }
+
+  /** Close when leaving a `using` block */
+  [Symbol.dispose](): void {
+    this.close();
+  }
+}